@@ -8,8 +8,8 @@ type HealthStatus = {
   responseTime: string;
   checks: {
     environment: { status: string; errors?: string[] };
-    pinecone: { status: string; vectorCount?: number };
-    openai: { status: string };
+    vectorStore: { status: string; provider?: string; vectorCount?: number };
+    llm: { status: string; provider?: string; model?: string };
   };
   version: string;
   environment: string;
@@ -149,27 +149,42 @@ export default function AdminDashboard() {
                   )}
                 </div>
 
-                {/* Pinecone Check */}
+                {/* Vector Store Check */}
                 <div className="bg-white border rounded-lg p-6">
-                  <h3 className="text-lg font-semibold mb-3">Pinecone DB</h3>
-                  <p className={`text-xl font-bold ${getStatusColor(health.checks.pinecone.status)}`}>
-                    {getStatusIcon(health.checks.pinecone.status)} {health.checks.pinecone.status.toUpperCase()}
+                  <h3 className="text-lg font-semibold mb-3">Vector Store</h3>
+                  <p className={`text-xl font-bold ${getStatusColor(health.checks.vectorStore.status)}`}>
+                    {getStatusIcon(health.checks.vectorStore.status)} {health.checks.vectorStore.status.toUpperCase()}
                   </p>
-                  {health.checks.pinecone.vectorCount !== undefined && (
+                  {health.checks.vectorStore.vectorCount !== undefined && (
                     <div className="mt-3">
+                      {health.checks.vectorStore.provider && (
+                        <p className="text-sm text-gray-600">
+                          Backend: <span className="font-semibold">{health.checks.vectorStore.provider}</span>
+                        </p>
+                      )}
                       <p className="text-sm text-gray-600">
-                        Vectors: <span className="font-semibold">{health.checks.pinecone.vectorCount.toLocaleString()}</span>
+                        Vectors: <span className="font-semibold">{health.checks.vectorStore.vectorCount.toLocaleString()}</span>
                       </p>
                     </div>
                   )}
                 </div>
 
-                {/* OpenAI Check */}
+                {/* LLM Check */}
                 <div className="bg-white border rounded-lg p-6">
-                  <h3 className="text-lg font-semibold mb-3">OpenAI API</h3>
-                  <p className={`text-xl font-bold ${getStatusColor(health.checks.openai.status)}`}>
-                    {getStatusIcon(health.checks.openai.status)} {health.checks.openai.status.toUpperCase()}
+                  <h3 className="text-lg font-semibold mb-3">LLM Provider</h3>
+                  <p className={`text-xl font-bold ${getStatusColor(health.checks.llm.status)}`}>
+                    {getStatusIcon(health.checks.llm.status)} {health.checks.llm.status.toUpperCase()}
                   </p>
+                  {health.checks.llm.provider && (
+                    <div className="mt-3">
+                      <p className="text-sm text-gray-600">
+                        Provider: <span className="font-semibold">{health.checks.llm.provider}</span>
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        Model: <span className="font-semibold">{health.checks.llm.model}</span>
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { AuthConfigError, SESSION_COOKIE, createSession, getAuthSettings, getUserStore } from "@/lib/auth";
+import { apiLogger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+/** Check a username and password and start a session in an HttpOnly cookie */
+export async function POST(request: Request) {
+  try {
+    if (!getAuthSettings().enabled) {
+      return NextResponse.json({ error: "Authentication is disabled on this server." }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const username = typeof body?.username === "string" ? body.username : "";
+    const password = typeof body?.password === "string" ? body.password : "";
+    if (!username || !password) {
+      return NextResponse.json({ error: "Username and password are required." }, { status: 400 });
+    }
+
+    const user = await getUserStore().verifyLogin(username, password);
+    if (!user) {
+      apiLogger.warn("Failed sign-in", { username });
+      return NextResponse.json({ error: "Incorrect username or password." }, { status: 401 });
+    }
+
+    const { token, maxAge } = await createSession(user);
+    apiLogger.info("User signed in", { username: user.username, role: user.role });
+
+    const response = NextResponse.json(
+      { user: { username: user.username, role: user.role, workspace: user.workspace ?? null } },
+      { status: 200 },
+    );
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof AuthConfigError) {
+      return NextResponse.json({ error: `Sign-in is not set up: ${error.message}` }, { status: 503 });
+    }
+    apiLogger.error("Sign-in failed", { error: String(error) });
+    return NextResponse.json({ error: "Failed to sign in." }, { status: 500 });
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const response = NextResponse.json({ success: true }, { status: 200 });
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { AuthConfigError, AuthError, getAuthSettings, identify } from "@/lib/auth";
+import { apiLogger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+/** The caller's identity and role, so the UI can hide what they cannot do */
+export async function GET(request: Request) {
+  try {
+    const principal = await identify(request);
+    return NextResponse.json(
+      {
+        authEnabled: getAuthSettings().enabled,
+        user: principal?.username ? { username: principal.username, workspace: principal.workspace ?? null } : null,
+        role: principal?.role ?? null,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AuthConfigError) {
+      return NextResponse.json({ error: `Sign-in is not set up: ${error.message}` }, { status: 503 });
+    }
+    apiLogger.error("Failed to identify caller", { error: String(error) });
+    return NextResponse.json({ error: "Failed to identify caller." }, { status: 500 });
+  }
+}
@@ -1,7 +1,21 @@
 import { NextResponse } from "next/server";
-import { answerLegalQuestion, initLegalIndex } from "@/lib/rag";
+import {
+  AnswerOptions,
+  answerLegalQuestion,
+  ChatResult,
+  initLegalIndex,
+  SourceSnippet,
+  streamLegalAnswer,
+} from "@/lib/rag";
 import { apiLogger } from "@/lib/logger";
 import { validateEnvironment } from "@/lib/env";
+import { encodeSSE } from "@/lib/sse";
+import { sanitizeHistory } from "@/lib/conversation";
+import { sanitizeWeights } from "@/lib/hybrid";
+import { sanitizeFilters } from "@/lib/filters";
+import { ConversationScope, getConversationStore } from "@/lib/conversations";
+import { InvalidWorkspaceError } from "@/lib/workspaces";
+import { AuthError, authenticate, requestScope } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
@@ -29,6 +43,108 @@ async function ensureInitialized() {
   }
 }
 
+// A stored conversation the exchange is saved to, and the caller's access to it
+type SavedConversation = { id: string; scope: ConversationScope };
+
+/**
+ * Append a completed exchange to a stored conversation. Failures are logged but
+ * never fail the chat request itself.
+ */
+async function saveExchange(
+  conversation: SavedConversation | undefined,
+  question: string,
+  result: ChatResult,
+  requestId: string,
+) {
+  if (!conversation) return;
+  try {
+    await getConversationStore().append(conversation.id, conversation.scope, [
+      { role: "user", content: question },
+      { role: "assistant", content: result.answer, sources: result.sources, grounding: result.grounding },
+    ]);
+  } catch (error) {
+    apiLogger.error("Failed to save conversation exchange", {
+      error: String(error),
+      requestId,
+      conversationId: conversation.id
+    });
+  }
+}
+
+function streamAnswer(
+  question: string,
+  options: AnswerOptions,
+  conversation: SavedConversation | undefined,
+  requestId: string,
+  startTime: number,
+): Response {
+  const encoder = new TextEncoder();
+  const events = streamLegalAnswer(question, options);
+  let cancelled = false;
+  let sources: SourceSnippet[] = [];
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          if (cancelled) break;
+          controller.enqueue(encoder.encode(encodeSSE(event.type, event)));
+          if (event.type === "sources") {
+            sources = event.sources;
+          }
+          if (event.type === "done") {
+            await saveExchange(
+              conversation,
+              question,
+              { answer: event.answer, sources, grounding: event.grounding },
+              requestId,
+            );
+            apiLogger.info("Streaming request completed successfully", {
+              requestId,
+              processingTime: `${Date.now() - startTime}ms`,
+              tokensUsed: event.usage?.totalTokens || 0
+            });
+          }
+        }
+      } catch (error) {
+        if (cancelled) return;
+        apiLogger.error("Streaming request failed", {
+          error: String(error),
+          requestId,
+          processingTime: `${Date.now() - startTime}ms`
+        });
+        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+        controller.enqueue(
+          encoder.encode(
+            encodeSSE("error", {
+              type: "error",
+              message: "Failed to process your question. Please try again.",
+              details: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+            }),
+          ),
+        );
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    async cancel() {
+      cancelled = true;
+      apiLogger.info("Client closed the stream", { requestId });
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
 export async function POST(request: Request) {
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   const startTime = Date.now();
@@ -36,11 +152,15 @@ export async function POST(request: Request) {
   apiLogger.info("Received chat request", { requestId, method: "POST" });
   
   try {
+    const principal = await authenticate(request, "viewer");
+
     // Ensure system is initialized
     await ensureInitialized();
     
     const body = await request.json();
     const question = (body?.question ?? "") as string;
+    const conversationId =
+      typeof body?.conversationId === "string" && body.conversationId ? body.conversationId : undefined;
 
     if (!question || !question.trim()) {
       apiLogger.warn("Invalid request - empty question", { requestId });
@@ -50,12 +170,52 @@ export async function POST(request: Request) {
       );
     }
 
+    // Also fixes the workspace the question is answered in
+    const scope = requestScope(request, principal);
+    const saved = conversationId ? { id: conversationId, scope } : undefined;
+
+    // A stored conversation is the source of truth for history; otherwise trust the client's turns
+    let history = sanitizeHistory(body?.history);
+    if (conversationId) {
+      const conversation = await getConversationStore().get(conversationId, scope);
+      if (!conversation) {
+        apiLogger.warn("Unknown conversation", { requestId, conversationId });
+        return NextResponse.json(
+          { error: "Conversation not found." },
+          { status: 404 },
+        );
+      }
+      history = sanitizeHistory(conversation.messages);
+    }
+
+    const options: AnswerOptions = {
+      history,
+      weights: sanitizeWeights(body?.weights),
+      filters: sanitizeFilters(body?.filters),
+      workspace: scope.workspace,
+      debug: body?.debug === true,
+    };
+
+    const wantsStream =
+      body?.stream === true || (request.headers.get("accept") || "").includes("text/event-stream");
+
     apiLogger.debug("Processing question", { 
       requestId, 
-      questionLength: question.length 
+      questionLength: question.length,
+      historyTurns: history.length,
+      conversationId,
+      weights: options.weights,
+      filters: options.filters,
+      workspace: options.workspace,
+      stream: wantsStream
     });
 
-    const result = await answerLegalQuestion(question);
+    if (wantsStream) {
+      return streamAnswer(question, options, saved, requestId, startTime);
+    }
+
+    const result = await answerLegalQuestion(question, options);
+    await saveExchange(saved, question, result, requestId);
     
     const processingTime = Date.now() - startTime;
     apiLogger.info("Request completed successfully", {
@@ -66,6 +226,12 @@ export async function POST(request: Request) {
 
     return NextResponse.json(result, { status: 200 });
   } catch (error: unknown) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     const processingTime = Date.now() - startTime;
     apiLogger.error("Request failed", {
       error: String(error),
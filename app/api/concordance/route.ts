@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveAct } from "@/lib/acts";
+import { findCorrespondingSections } from "@/lib/concordance";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    await authenticate(request, "viewer");
+
+    const act = request.nextUrl.searchParams.get("act")?.trim() || "";
+    const section = request.nextUrl.searchParams.get("section")?.trim() || "";
+
+    if (!act || !section) {
+      return NextResponse.json(
+        { error: "Both 'act' and 'section' query parameters are required." },
+        { status: 400 },
+      );
+    }
+
+    const info = resolveAct(act);
+    if (!info) {
+      return NextResponse.json(
+        { error: `Unknown act '${act}'. Supported acts: IPC, BNS, CrPC, BNSS, IEA, BSA.` },
+        { status: 400 },
+      );
+    }
+
+    const matches = findCorrespondingSections(info.code, section);
+
+    apiLogger.info("Concordance lookup", { act: info.code, section, matchCount: matches.length });
+
+    if (!matches.length) {
+      return NextResponse.json(
+        { act: info.code, section, inForce: info.inForce, matches, error: "No corresponding section found." },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      { act: info.code, actName: info.name, section, inForce: info.inForce, matches },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    apiLogger.error("Concordance lookup failed", { error: String(error) });
+    return NextResponse.json({ error: "Failed to look up the concordance table." }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getConversationStore } from "@/lib/conversations";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate, requestScope } from "@/lib/auth";
+import { InvalidWorkspaceError } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const principal = await authenticate(request, "viewer");
+    const conversation = await getConversationStore().get(params.id, requestScope(request, principal));
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+    return NextResponse.json(conversation, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to load conversation", { error: String(error), conversationId: params.id });
+    return NextResponse.json({ error: "Failed to load conversation." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    // Only whoever started the conversation, or an admin, can delete it
+    const principal = await authenticate(request, "viewer");
+    const deleted = await getConversationStore().delete(params.id, requestScope(request, principal));
+    if (!deleted) {
+      return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+    }
+    apiLogger.info("Conversation deleted", { conversationId: params.id });
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to delete conversation", { error: String(error), conversationId: params.id });
+    return NextResponse.json({ error: "Failed to delete conversation." }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getConversationStore } from "@/lib/conversations";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate, requestScope } from "@/lib/auth";
+import { InvalidWorkspaceError } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const principal = await authenticate(request, "viewer");
+    const conversations = await getConversationStore().list(requestScope(request, principal));
+    return NextResponse.json({ conversations }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to list conversations", { error: String(error) });
+    return NextResponse.json({ error: "Failed to list conversations." }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const principal = await authenticate(request, "viewer");
+    // An anonymous thread would belong to nobody, so it could never be opened again
+    if (principal.id === null && principal.role !== "admin") {
+      throw new AuthError(401, "Sign in to save conversations");
+    }
+    const { workspace, owner } = requestScope(request, principal);
+
+    // An empty or invalid body creates an untitled conversation
+    const body: unknown = await request.json().catch(() => null);
+    const title =
+      typeof body === "object" && body !== null && "title" in body && typeof body.title === "string"
+        ? body.title
+        : undefined;
+    const conversation = await getConversationStore().create({ title, workspace, owner });
+    apiLogger.info("Conversation created", { conversationId: conversation.id, workspace });
+    return NextResponse.json(conversation, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to create conversation", { error: String(error) });
+    return NextResponse.json({ error: "Failed to create conversation." }, { status: 500 });
+  }
+}
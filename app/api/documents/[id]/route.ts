@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { deleteUploadedDocument, getUploadedDocument } from "@/lib/upload";
+import { InvalidWorkspaceError } from "@/lib/workspaces";
+import { AuthError, authenticate, requestWorkspace } from "@/lib/auth";
+import { apiLogger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const principal = await authenticate(request, "viewer");
+    const document = await getUploadedDocument(params.id, requestWorkspace(request, principal));
+    if (!document) {
+      return NextResponse.json({ error: "Document not found." }, { status: 404 });
+    }
+    return NextResponse.json(document, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to load uploaded document", { error: String(error), documentId: params.id });
+    return NextResponse.json({ error: "Failed to load uploaded document." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const principal = await authenticate(request, "uploader");
+    const deleted = await deleteUploadedDocument(params.id, requestWorkspace(request, principal));
+    if (!deleted) {
+      return NextResponse.json({ error: "Document not found." }, { status: 404 });
+    }
+    apiLogger.info("Uploaded document deleted", { documentId: params.id, fileName: deleted.fileName });
+    return NextResponse.json({ success: true, deletedChunks: deleted.chunkIds.length }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to delete uploaded document", { error: String(error), documentId: params.id });
+    return NextResponse.json({ error: "Failed to delete uploaded document." }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { DocumentSummary } from "@/lib/documents";
+import { listUploadedDocuments } from "@/lib/upload";
+import { InvalidWorkspaceError } from "@/lib/workspaces";
+import { AuthError, authenticate, requestWorkspace } from "@/lib/auth";
+import { apiLogger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const principal = await authenticate(request, "viewer");
+    const records = await listUploadedDocuments(requestWorkspace(request, principal));
+    // Chunk ids are only returned by GET /api/documents/:id
+    const documents: DocumentSummary[] = records.map(({ chunkIds, ...record }) => ({ ...record, chunkCount: chunkIds.length }));
+    return NextResponse.json({ documents }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    apiLogger.error("Failed to list uploaded documents", { error: String(error) });
+    return NextResponse.json({ error: "Failed to list uploaded documents." }, { status: 500 });
+  }
+}
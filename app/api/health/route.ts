@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
-import { validateEnvironment } from "@/lib/env";
-import { checkPineconeConnection } from "@/lib/pinecone";
+import { getEnvConfig, validateEnvironment } from "@/lib/env";
+import { checkVectorStoreConnection, getVectorStore } from "@/lib/vectorstore";
 import { apiLogger } from "@/lib/logger";
 
 export const dynamic = "force-dynamic";
@@ -14,29 +14,31 @@ export async function GET() {
     // Check environment configuration
     const envValidation = validateEnvironment();
     
-    // Check Pinecone connection
-    let pineconeStatus = false;
+    // Check vector store connection
+    let vectorStoreStatus = false;
+    let vectorStoreProvider: string | undefined;
     let vectorCount = 0;
     
     if (envValidation.valid) {
       try {
-        pineconeStatus = await checkPineconeConnection();
+        vectorStoreStatus = await checkVectorStoreConnection();
         
-        if (pineconeStatus) {
-          const { getPineconeIndex } = await import("@/lib/pinecone");
-          const index = getPineconeIndex();
-          const stats = await index.describeIndexStats();
-          vectorCount = stats.totalRecordCount || 0;
+        if (vectorStoreStatus) {
+          const store = getVectorStore();
+          const stats = await store.stats();
+          vectorStoreProvider = store.provider;
+          vectorCount = stats.totalRecordCount;
         }
       } catch (error) {
-        apiLogger.warn("Pinecone health check failed", { error: String(error) });
+        apiLogger.warn("Vector store health check failed", { error: String(error) });
       }
     }
     
+    const llmConfig = envValidation.valid ? getEnvConfig().llm : undefined;
     const responseTime = Date.now() - startTime;
     
     const health = {
-      status: envValidation.valid && pineconeStatus ? "healthy" : "degraded",
+      status: envValidation.valid && vectorStoreStatus ? "healthy" : "degraded",
       timestamp: new Date().toISOString(),
       responseTime: `${responseTime}ms`,
       checks: {
@@ -44,12 +46,15 @@ export async function GET() {
           status: envValidation.valid ? "ok" : "error",
           errors: envValidation.errors.length > 0 ? envValidation.errors : undefined,
         },
-        pinecone: {
-          status: pineconeStatus ? "ok" : "error",
-          vectorCount: pineconeStatus ? vectorCount : undefined,
+        vectorStore: {
+          status: vectorStoreStatus ? "ok" : "error",
+          provider: vectorStoreProvider,
+          vectorCount: vectorStoreStatus ? vectorCount : undefined,
         },
-        openai: {
-          status: envValidation.valid && !envValidation.errors.some(e => e.includes("OPENAI")) ? "ok" : "error",
+        llm: {
+          status: llmConfig ? "ok" : "error",
+          provider: llmConfig?.provider,
+          model: llmConfig?.model,
         },
       },
       version: process.env.npm_package_version || "1.0.0",
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getIndexJobs, IndexJobStateError } from "@/lib/ingest";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await authenticate(request, "admin");
+    const job = await getIndexJobs().cancel(params.id);
+    if (!job) {
+      return NextResponse.json({ error: "Indexing job not found." }, { status: 404 });
+    }
+    apiLogger.info("Indexing job cancellation requested", { jobId: params.id });
+    return NextResponse.json(job, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof IndexJobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    apiLogger.error("Failed to cancel indexing job", { error: String(error), jobId: params.id });
+    return NextResponse.json({ error: "Failed to cancel indexing job." }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getIndexJobs } from "@/lib/ingest";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    await authenticate(request, "admin");
+    const job = getIndexJobs().get(params.id);
+    if (!job) {
+      return NextResponse.json({ error: "Indexing job not found." }, { status: 404 });
+    }
+    return NextResponse.json(job, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    apiLogger.error("Failed to load indexing job", { error: String(error), jobId: params.id });
+    return NextResponse.json({ error: "Failed to load indexing job." }, { status: 500 });
+  }
+}
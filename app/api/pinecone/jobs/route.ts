@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getIndexJobs } from "@/lib/ingest";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    await authenticate(request, "admin");
+    return NextResponse.json({ jobs: getIndexJobs().list() }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    apiLogger.error("Failed to list indexing jobs", { error: String(error) });
+    return NextResponse.json({ error: "Failed to list indexing jobs." }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { clearIndexes, clearNamespace, getIndexJobs } from "@/lib/ingest";
+import { getVectorStore } from "@/lib/vectorstore";
+import { listNamespaces, parseNamespaceName } from "@/lib/workspaces";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+const ACTIVE_JOB_PHASES = ["queued", "loading", "indexing"];
+
+/** Empty one namespace. Clearing the shared corpus also drops the manifest, so the next job re-indexes it. */
+export async function DELETE(request: Request, { params }: { params: { name: string } }) {
+  try {
+    await authenticate(request, "admin");
+    const info = (await listNamespaces()).find((namespace) => namespace.name === params.name);
+    if (!info) {
+      return NextResponse.json({ error: "Namespace not found." }, { status: 404 });
+    }
+
+    if (info.shared) {
+      if (getIndexJobs().list().some((job) => ACTIVE_JOB_PHASES.includes(job.phase))) {
+        return NextResponse.json(
+          { error: "An indexing job is running. Cancel it before clearing the shared corpus." },
+          { status: 409 },
+        );
+      }
+      await clearIndexes();
+    } else {
+      await clearNamespace(parseNamespaceName(params.name));
+    }
+    await getVectorStore().flush();
+
+    apiLogger.warn("Namespace cleared", { namespace: params.name, vectors: info.vectorCount, documents: info.documentCount });
+    return NextResponse.json(
+      { success: true, deletedVectors: info.vectorCount, deletedDocuments: info.documentCount },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    apiLogger.error("Failed to clear namespace", { error: String(error), namespace: params.name });
+    return NextResponse.json({ error: "Failed to clear namespace." }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { listNamespaces } from "@/lib/workspaces";
+import { apiLogger } from "@/lib/logger";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    await authenticate(request, "admin");
+    const namespaces = await listNamespaces();
+    return NextResponse.json({ namespaces }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    apiLogger.error("Failed to list namespaces", { error: String(error) });
+    return NextResponse.json({ error: "Failed to list namespaces." }, { status: 500 });
+  }
+}
@@ -1,12 +1,18 @@
 import { NextResponse } from "next/server";
-import { getPineconeIndex } from "@/lib/pinecone";
+import { getVectorStore } from "@/lib/vectorstore";
 import { apiLogger } from "@/lib/logger";
 import { validateEnvironment } from "@/lib/env";
+import { InvalidWorkspaceError, namespaceName, searchNamespaces } from "@/lib/workspaces";
+import { AuthError, authenticate, requestWorkspace } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    const principal = await authenticate(request, "viewer");
+    // Admins see every namespace; others only the shared corpus and their own workspace's
+    const visible =
+      principal.role === "admin" ? null : new Set(searchNamespaces(requestWorkspace(request, principal)));
     apiLogger.info("Pinecone status check requested");
     
     // Validate environment first
@@ -22,14 +28,18 @@ export async function GET() {
       }, { status: 200 });
     }
     
-    // Check Pinecone index
+    // Check the vector index
     try {
-      const index = getPineconeIndex();
-      const stats = await index.describeIndexStats();
+      const store = getVectorStore();
+      const stats = await store.stats();
       
-      const vectorCount = stats.totalRecordCount || 0;
+      const namespaces = Object.entries(stats.namespaces).filter(([namespace]) => !visible || visible.has(namespace));
+      const vectorCount = visible
+        ? namespaces.reduce((sum, [, count]) => sum + count, 0)
+        : stats.totalRecordCount;
       
-      apiLogger.info("Pinecone status retrieved", {
+      apiLogger.info("Vector store status retrieved", {
+        provider: store.provider,
         vectorCount,
         dimension: stats.dimension,
         indexFullness: stats.indexFullness
@@ -37,22 +47,30 @@ export async function GET() {
       
       return NextResponse.json({
         configured: true,
+        provider: store.provider,
         vectorCount,
         dimension: stats.dimension,
         indexFullness: stats.indexFullness,
-        namespaces: stats.namespaces
+        // Record count per namespace; see GET /api/pinecone/namespaces for details
+        namespaces: Object.fromEntries(namespaces.map(([namespace, count]) => [namespaceName(namespace), count]))
       }, { status: 200 });
       
     } catch (error) {
-      apiLogger.error("Failed to get Pinecone stats", { error: String(error) });
+      apiLogger.error("Failed to get vector store stats", { error: String(error) });
       return NextResponse.json({
         configured: false,
         vectorCount: 0,
-        error: "Failed to connect to Pinecone index"
+        error: "Failed to connect to the vector index"
       }, { status: 200 });
     }
     
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     apiLogger.error("Pinecone status check failed", { error: String(error) });
     return NextResponse.json({
       configured: false,
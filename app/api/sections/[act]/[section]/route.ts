@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { resolveAct } from "@/lib/acts";
+import { findCorrespondingSections } from "@/lib/concordance";
+import { lookupSection } from "@/lib/sections";
+import { apiLogger } from "@/lib/logger";
+import { validateEnvironment } from "@/lib/env";
+import { AuthError, authenticate } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+function decodeParam(value: string | undefined): string {
+  try {
+    return decodeURIComponent(value || "").trim();
+  } catch {
+    return (value || "").trim();
+  }
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { act: string; section: string } },
+) {
+  const actParam = decodeParam(params.act);
+  const section = decodeParam(params.section);
+
+  try {
+    await authenticate(request, "viewer");
+
+    const info = resolveAct(actParam);
+    if (!info) {
+      return NextResponse.json(
+        { error: `Unknown act '${actParam}'. Supported acts: IPC, BNS, CrPC, BNSS, IEA, BSA.` },
+        { status: 400 },
+      );
+    }
+
+    if (!/^\d+[A-Za-z]*(\(\w+\))*$/.test(section)) {
+      return NextResponse.json({ error: `Invalid section '${section}'.` }, { status: 400 });
+    }
+
+    const envValidation = validateEnvironment();
+    if (!envValidation.valid) {
+      return NextResponse.json(
+        { error: "Environment configuration is invalid", errors: envValidation.errors },
+        { status: 500 },
+      );
+    }
+
+    const result = await lookupSection(info.code, section);
+
+    if (!result) {
+      apiLogger.info("Section not found", { act: info.code, section });
+      return NextResponse.json(
+        { error: `${info.code} section ${section} is not in the index.` },
+        { status: 404 },
+      );
+    }
+
+    apiLogger.info("Section lookup completed", { act: info.code, section, chunks: result.chunks.length });
+
+    return NextResponse.json(
+      {
+        act: result.act,
+        actName: result.actName,
+        section: result.section,
+        title: result.title,
+        text: result.text,
+        inForce: info.inForce,
+        correspondsTo: findCorrespondingSections(info.code, section),
+        chunkIds: result.chunks.map((chunk) => chunk.id),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    apiLogger.error("Section lookup failed", { error: String(error), act: actParam, section });
+    return NextResponse.json({ error: "Failed to look up the section." }, { status: 500 });
+  }
+}
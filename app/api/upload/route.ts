@@ -1,20 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import { chunkFileText, uploadDocumentsToPinecone } from "@/lib/upload";
+import { getEnvConfig } from "@/lib/env";
+import { DuplicatePolicy, processUploads, UploadFile, UploadRejection } from "@/lib/upload";
+import { InvalidWorkspaceError } from "@/lib/workspaces";
+import { isVectorStoreConfigured } from "@/lib/vectorstore";
+import { AuthError, authenticate, requestWorkspace } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
+// Status for a request in which every file was rejected, by the first file's reason
+const REJECTION_STATUS: Record<UploadRejection, number> = {
+  "too-large": 413,
+  "unsupported-type": 415,
+  unreadable: 422,
+  empty: 422,
+};
+
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.PINECONE_API_KEY;
-    const indexName = process.env.PINECONE_INDEX;
-
-    if (!apiKey || !indexName) {
+    const principal = await authenticate(request, "uploader");
+    if (!isVectorStoreConfigured()) {
       return NextResponse.json(
-        { ok: false, error: "Pinecone is not configured. Please set PINECONE_API_KEY and PINECONE_INDEX." },
+        {
+          ok: false,
+          error: "The vector store is not configured. Set PINECONE_API_KEY and PINECONE_INDEX, or VECTOR_STORE=local.",
+        },
         { status: 500 },
       );
     }
 
+    const workspace = requestWorkspace(request, principal);
+    const limits = getEnvConfig().upload;
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > limits.maxRequestBytes) {
+      return NextResponse.json(
+        { ok: false, error: `The upload is larger than the ${limits.maxRequestBytes / (1024 * 1024)} MB request limit.` },
+        { status: 413 },
+      );
+    }
+
     const formData = await request.formData();
     const fileEntries = formData.getAll("files");
 
@@ -25,29 +48,65 @@ export async function POST(request: NextRequest) {
         { status: 400 },
       );
     }
+    if (files.length > limits.maxFiles) {
+      return NextResponse.json(
+        { ok: false, error: `At most ${limits.maxFiles} files can be uploaded at once.` },
+        { status: 413 },
+      );
+    }
+    // Chunked requests carry no content-length, so check the decoded total too
+    if (files.reduce((total, file) => total + file.size, 0) > limits.maxRequestBytes) {
+      return NextResponse.json(
+        { ok: false, error: `The upload is larger than the ${limits.maxRequestBytes / (1024 * 1024)} MB request limit.` },
+        { status: 413 },
+      );
+    }
 
-    let allDocs: any[] = [];
+    const duplicates: DuplicatePolicy = formData.get("onDuplicate") === "replace" ? "replace" : "skip";
+    // Signed-in uploads are recorded under the account; the form field only names anonymous uploaders
+    const uploaderField = formData.get("uploader");
+    const uploader =
+      principal.username ??
+      (typeof uploaderField === "string" ? uploaderField.trim().slice(0, 100) || undefined : undefined);
+    const uploads: UploadFile[] = [];
     for (const file of files) {
-      const arrayBuffer = await file.arrayBuffer();
-      const rawText = Buffer.from(arrayBuffer).toString("utf8");
-      const docs = chunkFileText(file.name, rawText);
-      allDocs = allDocs.concat(docs);
+      uploads.push({ name: file.name, type: file.type, buffer: Buffer.from(await file.arrayBuffer()) });
     }
 
-    const { uploadedChunks } = await uploadDocumentsToPinecone(allDocs);
+    const { results, uploadedChunks, failedChunks } = await processUploads(uploads, { workspace, duplicates, uploader });
+    const body = { fileCount: files.length, uploadedChunks, failedChunks, results };
 
-    return NextResponse.json(
-      {
-        ok: true,
-        fileCount: files.length,
-        uploadedChunks,
-      },
-      { status: 200 },
-    );
+    const rejected = results.filter((result) => result.status === "rejected");
+    if (rejected.length === results.length) {
+      return NextResponse.json(
+        { ok: false, error: "None of the files could be indexed.", ...body },
+        { status: REJECTION_STATUS[rejected[0].rejection ?? "unreadable"] },
+      );
+    }
+
+    // Partial uploads are not a success: report what is missing and where it went
+    if (failedChunks > 0) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `${failedChunks} chunks failed to index and were added to the dead-letter list. Run "npm run replay-dead-letter" to retry them.`,
+          ...body,
+        },
+        { status: uploadedChunks > 0 ? 207 : 502 },
+      );
+    }
+
+    return NextResponse.json({ ok: true, ...body }, { status: rejected.length ? 207 : 200 });
   } catch (error: unknown) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    if (error instanceof InvalidWorkspaceError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
     console.error("/api/upload error", error);
     return NextResponse.json(
-      { ok: false, error: "Failed to upload documents to Pinecone." },
+      { ok: false, error: "Failed to upload documents." },
       { status: 500 },
     );
   }
@@ -0,0 +1,96 @@
+"use client";
+
+import { FormEvent, Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+// Only follow same-site paths after signing in
+function safeNext(value: string | null): string {
+  return value && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+}
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const next = safeNext(searchParams.get("next"));
+  const forbidden = searchParams.get("reason") === "forbidden";
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to sign in");
+
+      // A full navigation, so the middleware sees the new session cookie
+      window.location.assign(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-sm space-y-4 rounded-3xl border border-slate-800/60 bg-slate-900/60 p-6 shadow-[0_0_60px_rgba(15,23,42,0.8)] backdrop-blur-xl"
+    >
+      <div>
+        <h1 className="text-xl font-semibold text-slate-50">Sign in to SythaAI</h1>
+        <p className="mt-1 text-xs text-slate-400">
+          {forbidden
+            ? "Your account cannot open that page. Sign in with an account that has the required role."
+            : "Sign in to continue."}
+        </p>
+      </div>
+
+      <input
+        type="text"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder="Username"
+        autoComplete="username"
+        required
+        className="w-full rounded-lg bg-slate-800/60 px-3 py-2 text-sm text-slate-200 placeholder:text-slate-500 ring-1 ring-slate-700/50 focus:outline-none focus:ring-brand-500"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="current-password"
+        required
+        className="w-full rounded-lg bg-slate-800/60 px-3 py-2 text-sm text-slate-200 placeholder:text-slate-500 ring-1 ring-slate-700/50 focus:outline-none focus:ring-brand-500"
+      />
+
+      {error && <p className="text-xs text-rose-300">❌ {error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-xl bg-brand-500 px-4 py-2 text-sm font-semibold text-slate-50 shadow-md shadow-brand-500/30 transition hover:bg-brand-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+      >
+        {submitting ? "Signing in..." : "Sign in"}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-slate-950 px-4">
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </main>
+  );
+}
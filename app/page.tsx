@@ -2,7 +2,9 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { hasRole } from "@/lib/auth/roles";
 import { Chat } from "@/components/Chat";
+import { AccountBar } from "@/components/AccountBar";
 
 export default function HomePage() {
   const router = useRouter();
@@ -18,7 +20,9 @@ export default function HomePage() {
       const response = await fetch("/api/pinecone/status");
       const data = await response.json();
       
-      if (data.vectorCount === 0) {
+      // Only users who can upload get sent to set up an empty index
+      const me = data.vectorCount === 0 ? await fetch("/api/auth/me").then((res) => res.json()) : null;
+      if (me && hasRole(me.role, "uploader")) {
         // No vectors, redirect to upload page
         router.push("/upload");
       } else {
@@ -51,6 +55,7 @@ export default function HomePage() {
 
   return (
     <main className="mx-auto flex min-h-screen max-w-6xl flex-col gap-6 px-4 py-8 sm:px-6 lg:px-8">
+      <AccountBar />
       <header className="mt-4 space-y-3 text-center sm:mt-8 sm:space-y-4">
         <div className="inline-flex items-center gap-2 rounded-full border border-emerald-400/30 bg-emerald-500/5 px-3 py-1 text-[11px] font-medium text-emerald-200 shadow-sm shadow-emerald-500/30">
           <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" />
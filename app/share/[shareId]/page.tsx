@@ -0,0 +1,79 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { clsx } from "clsx";
+import { getConversationStore } from "@/lib/conversations";
+import { AnswerContent, GroundingWarning, SourceList } from "@/components/Answer";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata(
+  { params }: { params: { shareId: string } },
+): Promise<Metadata> {
+  const conversation = await getConversationStore().getByShareId(params.shareId);
+  return { title: conversation ? `${conversation.title} – SythaAI` : "Shared conversation – SythaAI" };
+}
+
+export default async function SharedConversationPage({ params }: { params: { shareId: string } }) {
+  const conversation = await getConversationStore().getByShareId(params.shareId);
+  if (!conversation) notFound();
+
+  return (
+    <main className="mx-auto flex min-h-screen max-w-4xl flex-col gap-6 px-4 py-8 sm:px-6 lg:px-8">
+      <header className="mt-4 space-y-2">
+        <p className="text-[11px] font-medium uppercase tracking-wide text-emerald-300">
+          Shared conversation · read-only
+        </p>
+        <h1 className="text-balance text-2xl font-semibold tracking-tight text-slate-50">
+          {conversation.title}
+        </h1>
+        <p className="text-xs text-slate-400">
+          Last updated {new Date(conversation.updatedAt).toLocaleString("en-IN")}
+        </p>
+      </header>
+
+      <section className="space-y-4 rounded-3xl border border-slate-800/60 bg-slate-900/60 px-4 py-5 sm:px-6">
+        {conversation.messages.length === 0 && (
+          <p className="text-sm text-slate-400">This conversation has no messages yet.</p>
+        )}
+        {conversation.messages.map((message) => (
+          <article
+            key={message.id}
+            className={clsx("flex", message.role === "user" ? "justify-end" : "justify-start")}
+          >
+            <div
+              className={clsx(
+                "max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed shadow-md",
+                message.role === "user"
+                  ? "bg-brand-500 text-slate-50 shadow-brand-500/40"
+                  : "bg-slate-900/80 text-slate-100 ring-1 ring-slate-700/80",
+              )}
+            >
+              {message.role === "assistant" ? (
+                <>
+                  <AnswerContent content={message.content} />
+                  <GroundingWarning grounding={message.grounding} />
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="mt-3 border-t border-slate-700/70 pt-2 text-xs text-slate-300">
+                      <p className="mb-1 font-semibold text-slate-200">Referenced sections</p>
+                      <SourceList sources={message.sources} />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="whitespace-pre-wrap">{message.content}</p>
+              )}
+            </div>
+          </article>
+        ))}
+      </section>
+
+      <footer className="border-t border-slate-800/70 pt-4 text-center text-[11px] text-slate-500">
+        Answers are general legal information, not legal advice.{" "}
+        <Link href="/" className="text-brand-300 hover:underline">
+          Ask your own question
+        </Link>
+      </footer>
+    </main>
+  );
+}
@@ -2,21 +2,87 @@
 
 import React, { useState, useEffect, FormEvent } from "react";
 import { useRouter } from "next/navigation";
+import type { IndexJob, IndexJobPhase } from "@/lib/ingest";
+import type { DocumentRecord, DocumentSummary } from "@/lib/documents";
+import type { UploadedChunk, UploadFileResult } from "@/lib/upload";
+import type { NamespaceInfo } from "@/lib/workspaces";
+import { loadWorkspace, saveWorkspace, workspaceHeaders } from "@/components/workspace";
+import { useAuth } from "@/components/auth";
+import { AccountBar } from "@/components/AccountBar";
+
+const ACTIVE_JOB_PHASES: IndexJobPhase[] = ["queued", "loading", "indexing"];
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const JOB_PHASE_LABELS: Record<IndexJobPhase, string> = {
+  queued: "Waiting to start",
+  loading: "Loading and chunking the dataset",
+  indexing: "Indexing",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const UPLOAD_STATUS_LABELS: Record<UploadFileResult["status"], string> = {
+  accepted: "✅ Indexed",
+  "skipped-duplicate": "⏭️ Skipped (duplicate)",
+  rejected: "❌ Rejected",
+};
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
 
 export default function UploadPage() {
   const router = useRouter();
+  const auth = useAuth();
+  // Indexing the dataset and clearing namespaces are admin actions
+  const isAdmin = auth.can("admin");
   const [files, setFiles] = useState<FileList | null>(null);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [replaceDuplicates, setReplaceDuplicates] = useState(false);
+  const [uploadResults, setUploadResults] = useState<UploadFileResult[]>([]);
+  const [uploader, setUploader] = useState("");
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [inspected, setInspected] = useState<(DocumentRecord & { chunks: UploadedChunk[] }) | null>(null);
+  const [workspace, setWorkspace] = useState("");
+  const [namespaces, setNamespaces] = useState<NamespaceInfo[]>([]);
   const [checking, setChecking] = useState(true);
   const [vectorCount, setVectorCount] = useState(0);
-  const [progress, setProgress] = useState("");
+  const [job, setJob] = useState<IndexJob | null>(null);
+
+  const jobActive = job !== null && ACTIVE_JOB_PHASES.includes(job.phase);
 
   useEffect(() => {
     checkPineconeStatus();
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // The workspace is settled once the user is known
+  useEffect(() => {
+    if (auth.loading) return;
+    const stored = loadWorkspace();
+    setWorkspace(stored);
+    loadDocuments(stored);
+    if (isAdmin) {
+      loadLatestJob();
+      loadNamespaces();
+    }
+  }, [auth.loading, isAdmin]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Poll the job until it finishes
+  useEffect(() => {
+    if (!job || !jobActive) return;
+    const timer = setTimeout(() => refreshJob(job.id), JOB_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [job]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const checkPineconeStatus = async () => {
     try {
       const response = await fetch("/api/pinecone/status");
@@ -30,51 +96,135 @@ export default function UploadPage() {
     }
   };
 
-  const handleIndexDocuments = async () => {
-    setIsUploading(true);
+  // Pick up a job started before this page was opened
+  const loadLatestJob = async () => {
+    try {
+      const response = await fetch("/api/pinecone/jobs");
+      if (!response.ok) return;
+      const data = (await response.json()) as { jobs: IndexJob[] };
+      const latest = data.jobs[0];
+      if (latest && latest.phase !== "completed") setJob(latest);
+    } catch (err) {
+      console.error("Failed to load indexing jobs:", err);
+    }
+  };
+
+  const loadDocuments = async (current: string = workspace) => {
+    try {
+      const response = await fetch("/api/documents", { headers: workspaceHeaders(current) });
+      if (!response.ok) return;
+      const data = (await response.json()) as { documents: DocumentSummary[] };
+      setDocuments(data.documents);
+    } catch (err) {
+      console.error("Failed to load uploaded documents:", err);
+    }
+  };
+
+  const loadNamespaces = async () => {
+    if (!isAdmin) return;
+    try {
+      const response = await fetch("/api/pinecone/namespaces");
+      if (!response.ok) return;
+      const data = (await response.json()) as { namespaces: NamespaceInfo[] };
+      setNamespaces(data.namespaces);
+    } catch (err) {
+      console.error("Failed to load namespaces:", err);
+    }
+  };
+
+  const switchWorkspace = async (e: FormEvent) => {
+    e.preventDefault();
+    saveWorkspace(workspace);
+    const current = loadWorkspace();
+    setWorkspace(current);
+    setInspected(null);
+    setUploadResults([]);
+    setStatus(`Using the ${current || "default"} workspace.`);
+    await loadDocuments(current);
+  };
+
+  const clearNamespace = async (namespace: NamespaceInfo) => {
+    const label = namespace.shared ? "the shared statute corpus" : `the ${namespace.workspace ?? namespace.name} namespace`;
+    if (!confirm(`Delete all ${namespace.vectorCount} vectors and ${namespace.documentCount} uploaded file(s) in ${label}?`)) {
+      return;
+    }
     setError(null);
-    setProgress("Starting indexing process...");
     setStatus(null);
 
     try {
-      const response = await fetch("/api/pinecone/index", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ clearExisting: false }),
+      const response = await fetch(`/api/pinecone/namespaces/${encodeURIComponent(namespace.name)}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to clear the namespace");
+
+      setStatus(`Cleared ${label}.`);
+      await Promise.all([loadNamespaces(), loadDocuments(), checkPineconeStatus()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear the namespace");
+    }
+  };
+
+  const inspectDocument = async (id: string) => {
+    if (inspected?.id === id) {
+      setInspected(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/documents/${id}`, { headers: workspaceHeaders(workspace) });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load the document");
+      setInspected(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the document");
+    }
+  };
+
+  const deleteDocument = async (document: DocumentSummary) => {
+    if (!confirm(`Remove ${document.fileName} and its ${document.chunkCount} chunk(s) from the index?`)) {
+      return;
+    }
+    setError(null);
+    setStatus(null);
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}`, {
+        method: "DELETE",
+        headers: workspaceHeaders(workspace),
       });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to delete the document");
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to index documents");
-      }
+      setStatus(`Removed ${document.fileName} (${data.deletedChunks} chunks).`);
+      if (inspected?.id === document.id) setInspected(null);
+      await Promise.all([loadDocuments(), checkPineconeStatus(), loadNamespaces()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete the document");
+    }
+  };
 
-      const result = await response.json();
-      setStatus(`Successfully indexed ${result.totalIndexed} documents!`);
-      setProgress("");
-      
-      // Refresh status and redirect after success
-      await checkPineconeStatus();
-      setTimeout(() => {
-        router.push("/");
-      }, 2000);
+  const refreshJob = async (id: string) => {
+    try {
+      const response = await fetch(`/api/pinecone/jobs/${id}`);
+      if (!response.ok) throw new Error("Lost track of the indexing job");
+      const latest = (await response.json()) as IndexJob;
+      setJob(latest);
+
+      if (latest.phase === "completed") {
+        setStatus(latest.message || `Indexed ${latest.processedChunks} chunks.`);
+        await Promise.all([checkPineconeStatus(), loadDocuments(), loadNamespaces()]);
+      } else if (latest.phase === "failed") {
+        setError(latest.message || "Indexing failed");
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to index documents");
-      setProgress("");
-    } finally {
-      setIsUploading(false);
+      setError(err instanceof Error ? err.message : "Failed to check indexing progress");
     }
   };
 
-  const handleClearAndIndex = async () => {
-    if (!confirm("This will delete all existing vectors and re-index. Are you sure?")) {
+  const startIndexing = async (clearExisting: boolean) => {
+    if (clearExisting && !confirm("This will delete all existing vectors and re-index. Are you sure?")) {
       return;
     }
 
-    setIsUploading(true);
     setError(null);
-    setProgress("Clearing existing vectors and re-indexing...");
     setStatus(null);
 
     try {
@@ -83,28 +233,31 @@ export default function UploadPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ clearExisting: true }),
+        body: JSON.stringify({ clearExisting }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to clear and index");
+        throw new Error(data.message || "Failed to start indexing");
       }
+      setJob(data.job as IndexJob);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start indexing");
+    }
+  };
 
-      const result = await response.json();
-      setStatus(`Successfully re-indexed ${result.totalIndexed} documents!`);
-      setProgress("");
-      
-      // Refresh status and redirect
-      await checkPineconeStatus();
-      setTimeout(() => {
-        router.push("/");
-      }, 2000);
+  const controlJob = async (action: "cancel" | "resume") => {
+    if (!job) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/pinecone/jobs/${job.id}/${action}`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} indexing`);
+      }
+      setJob(data as IndexJob);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to clear and index");
-      setProgress("");
-    } finally {
-      setIsUploading(false);
+      setError(err instanceof Error ? err.message : `Failed to ${action} indexing`);
     }
   };
 
@@ -112,6 +265,7 @@ export default function UploadPage() {
     e.preventDefault();
     setStatus(null);
     setError(null);
+    setUploadResults([]);
 
     if (!files || files.length === 0) {
       setError("Please select at least one file to upload.");
@@ -122,12 +276,15 @@ export default function UploadPage() {
     Array.from(files).forEach((file) => {
       formData.append("files", file);
     });
+    formData.append("onDuplicate", replaceDuplicates ? "replace" : "skip");
+    if (uploader.trim()) formData.append("uploader", uploader.trim());
 
     setIsUploading(true);
 
     try {
       const res = await fetch("/api/upload", {
         method: "POST",
+        headers: workspaceHeaders(workspace),
         body: formData,
       });
 
@@ -136,8 +293,10 @@ export default function UploadPage() {
         error?: string;
         fileCount?: number;
         uploadedChunks?: number;
+        results?: UploadFileResult[];
       };
 
+      setUploadResults(data.results ?? []);
       if (!res.ok || !data.ok) {
         throw new Error(data.error || "Upload failed.");
       }
@@ -151,6 +310,8 @@ export default function UploadPage() {
       setError(message);
     } finally {
       setIsUploading(false);
+      loadDocuments();
+      loadNamespaces();
     }
   }
 
@@ -168,6 +329,7 @@ export default function UploadPage() {
   return (
     <div className="min-h-screen bg-slate-950 p-8">
       <main className="mx-auto max-w-6xl">
+        <AccountBar />
         <header className="mt-4 space-y-3 text-center sm:mt-8 sm:space-y-4 mb-8">
           <div className="inline-flex items-center gap-2 rounded-full border border-emerald-400/30 bg-emerald-500/5 px-3 py-1 text-[11px] font-medium text-emerald-200 shadow-sm shadow-emerald-500/30">
             <span className="h-1.5 w-1.5 rounded-full bg-emerald-400" />
@@ -241,17 +403,19 @@ export default function UploadPage() {
 
               {/* Action Buttons */}
               <div className="space-y-3">
-                {vectorCount === 0 ? (
+                {vectorCount === 0 && !isAdmin ? (
+                  <p className="text-sm text-slate-400">Ask an administrator to index the legal dataset.</p>
+                ) : vectorCount === 0 ? (
                   <button
-                    onClick={handleIndexDocuments}
-                    disabled={isUploading}
+                    onClick={() => startIndexing(false)}
+                    disabled={jobActive}
                     className={`w-full rounded-2xl py-3 px-6 text-sm font-semibold transition-all ${
-                      isUploading 
+                      jobActive 
                         ? 'bg-slate-700 text-slate-400 cursor-not-allowed' 
                         : 'bg-emerald-500 text-slate-50 shadow-lg shadow-emerald-500/40 hover:bg-emerald-400 hover:shadow-emerald-400/50'
                     }`}
                   >
-                    {isUploading ? 'Indexing in progress...' : '🚀 Index Legal Documents from Dataset'}
+                    {jobActive ? 'Indexing in progress...' : '🚀 Index Legal Documents from Dataset'}
                   </button>
                 ) : (
                   <>
@@ -261,30 +425,65 @@ export default function UploadPage() {
                     >
                       💬 Go to Legal Chat
                     </button>
-                    <button
-                      onClick={handleClearAndIndex}
-                      disabled={isUploading}
-                      className={`w-full rounded-2xl py-3 px-6 text-sm font-semibold transition-all ${
-                        isUploading 
-                          ? 'bg-slate-700 text-slate-400 cursor-not-allowed' 
-                          : 'bg-slate-800/80 text-rose-400 ring-1 ring-rose-500/50 hover:bg-rose-900/30'
-                      }`}
-                    >
-                      {isUploading ? 'Re-indexing in progress...' : '🔄 Clear and Re-index Database'}
-                    </button>
+                    {isAdmin && (
+                      <button
+                        onClick={() => startIndexing(true)}
+                        disabled={jobActive}
+                        className={`w-full rounded-2xl py-3 px-6 text-sm font-semibold transition-all ${
+                          jobActive 
+                            ? 'bg-slate-700 text-slate-400 cursor-not-allowed' 
+                            : 'bg-slate-800/80 text-rose-400 ring-1 ring-rose-500/50 hover:bg-rose-900/30'
+                        }`}
+                      >
+                        {jobActive ? 'Re-indexing in progress...' : '🔄 Clear and Re-index Database'}
+                      </button>
+                    )}
                   </>
                 )}
               </div>
 
-              {/* Progress/Status Display */}
-              {progress && (
-                <div className="rounded-2xl bg-slate-800/50 p-4 ring-1 ring-slate-700/50">
-                  <div className="flex items-center gap-3">
-                    {isUploading && (
-                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-emerald-400"></div>
+              {/* Indexing Job Progress */}
+              {job && job.phase !== "completed" && (
+                <div className="rounded-2xl bg-slate-800/50 p-4 ring-1 ring-slate-700/50 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      {jobActive && (
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-emerald-400"></div>
+                      )}
+                      <p className="text-sm text-slate-300">
+                        {JOB_PHASE_LABELS[job.phase]}
+                        {job.totalChunks > 0 && ` · ${job.processedChunks.toLocaleString()}/${job.totalChunks.toLocaleString()} chunks`}
+                        {jobActive && job.etaSeconds !== undefined && ` · about ${formatEta(job.etaSeconds)} left`}
+                      </p>
+                    </div>
+                    {jobActive ? (
+                      <button
+                        onClick={() => controlJob("cancel")}
+                        className="rounded-xl bg-slate-800/80 px-3 py-1.5 text-xs font-semibold text-rose-400 ring-1 ring-rose-500/50 transition hover:bg-rose-900/30"
+                      >
+                        Cancel
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => controlJob("resume")}
+                        className="rounded-xl bg-emerald-500 px-3 py-1.5 text-xs font-semibold text-slate-50 shadow-md shadow-emerald-500/30 transition hover:bg-emerald-400"
+                      >
+                        Resume
+                      </button>
                     )}
-                    <p className="text-sm text-slate-300">{progress}</p>
                   </div>
+                  {job.totalChunks > 0 && (
+                    <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-700/60">
+                      <div
+                        className="h-full rounded-full bg-emerald-400 transition-all"
+                        style={{ width: `${Math.round((job.processedChunks / job.totalChunks) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                  {job.failedChunks > 0 && (
+                    <p className="text-xs text-amber-300">⚠️ {job.failedChunks} chunk(s) failed after retries and were added to the dead-letter list</p>
+                  )}
+                  {job.message && <p className="text-xs text-slate-400">{job.message}</p>}
                 </div>
               )}
 
@@ -300,6 +499,37 @@ export default function UploadPage() {
                 </div>
               )}
 
+              {/* Workspace */}
+              {!isAdmin ? (
+                <p className="rounded-2xl bg-slate-800/30 p-5 text-xs text-slate-400 ring-1 ring-slate-700/50">
+                  🏢 Uploads go to the <span className="text-slate-200">{workspace || "default"}</span> workspace
+                  assigned to your account.
+                </p>
+              ) : (
+                <form onSubmit={switchWorkspace} className="flex items-end gap-3 rounded-2xl bg-slate-800/30 p-5 ring-1 ring-slate-700/50">
+                  <label className="flex-1">
+                    <span className="block text-xs font-medium text-slate-400 mb-2">🏢 Workspace</span>
+                    <input
+                      type="text"
+                      value={workspace}
+                      onChange={(e) => setWorkspace(e.target.value)}
+                      placeholder="default"
+                      maxLength={48}
+                      className="w-full rounded-lg bg-slate-800/60 px-3 py-1.5 text-xs text-slate-200 placeholder:text-slate-500 ring-1 ring-slate-700/50 focus:outline-none focus:ring-brand-500"
+                    />
+                    <span className="mt-1 block text-[11px] text-slate-500">
+                      Uploads go to this workspace and chat in this browser searches the statutes plus its files.
+                    </span>
+                  </label>
+                  <button
+                    type="submit"
+                    className="rounded-xl bg-slate-700 px-4 py-2 text-xs font-semibold text-slate-100 hover:bg-slate-600"
+                  >
+                    Switch
+                  </button>
+                </form>
+              )}
+
               {/* Manual Upload Section */}
               <div className="rounded-2xl bg-slate-800/30 p-5 ring-1 ring-slate-700/50">
                 <h3 className="text-sm font-semibold text-slate-200 mb-4">📁 Manual File Upload</h3>
@@ -309,17 +539,38 @@ export default function UploadPage() {
                       Upload Custom Documents
                     </label>
                     <p className="text-xs text-slate-500 mb-3">
-                      Select text files (.txt, .md, .csv, .json) to add to the database
+                      Select PDF, Word (.docx), HTML, Markdown or text files to add to the database
                     </p>
                     <input
                       type="file"
                       multiple
                       onChange={(e) => setFiles(e.target.files)}
                       className="w-full text-xs text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-brand-500 file:px-3 file:py-1.5 file:text-xs file:font-medium file:text-slate-50 hover:file:bg-brand-400"
-                      accept=".txt,.md,.csv,.json"
+                      accept=".pdf,.docx,.html,.htm,.md,.markdown,.txt,.csv,.json"
                     />
                   </div>
 
+                  {!auth.user && (
+                    <input
+                      type="text"
+                      value={uploader}
+                      onChange={(e) => setUploader(e.target.value)}
+                      placeholder="Your name (optional, shown in the document list)"
+                      maxLength={100}
+                      className="w-full rounded-lg bg-slate-800/60 px-3 py-1.5 text-xs text-slate-200 placeholder:text-slate-500 ring-1 ring-slate-700/50 focus:outline-none focus:ring-brand-500"
+                    />
+                  )}
+
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={replaceDuplicates}
+                      onChange={(e) => setReplaceDuplicates(e.target.checked)}
+                      className="rounded border-slate-600 bg-slate-800"
+                    />
+                    Replace files that were uploaded before (otherwise they are skipped)
+                  </label>
+
                   <button
                     type="submit"
                     disabled={isUploading}
@@ -332,7 +583,129 @@ export default function UploadPage() {
                     {isUploading ? "Uploading..." : "Upload Files to Pinecone"}
                   </button>
                 </form>
+
+                {uploadResults.length > 0 && (
+                  <ul className="mt-4 space-y-1.5">
+                    {uploadResults.map((result, index) => (
+                      <li key={`${result.fileName}-${index}`} className="rounded-lg bg-slate-900/60 px-3 py-2 text-xs">
+                        <div className="flex justify-between gap-3">
+                          <span className="truncate text-slate-200">{result.fileName}</span>
+                          <span className="shrink-0 text-slate-400">{UPLOAD_STATUS_LABELS[result.status]}</span>
+                        </div>
+                        {result.status === "accepted" && (
+                          <p className="mt-0.5 text-slate-500">
+                            {result.chunks} chunk(s){result.replaced ? ", replacing the earlier copy" : ""}
+                            {result.failedChunks ? `; ${result.failedChunks} failed and were added to the dead-letter list` : ""}
+                          </p>
+                        )}
+                        {result.reason && <p className="mt-0.5 text-slate-500">{result.reason}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Uploaded Documents */}
+              <div className="rounded-2xl bg-slate-800/30 p-5 ring-1 ring-slate-700/50">
+                <h3 className="text-sm font-semibold text-slate-200 mb-4">📚 Uploaded Documents</h3>
+                {documents.length === 0 ? (
+                  <p className="text-xs text-slate-500">No files have been uploaded yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-xs">
+                      <thead className="text-slate-500">
+                        <tr>
+                          <th className="pb-2 pr-3 font-medium">File</th>
+                          <th className="pb-2 pr-3 font-medium">Type</th>
+                          <th className="pb-2 pr-3 font-medium">Size</th>
+                          <th className="pb-2 pr-3 font-medium">Chunks</th>
+                          <th className="pb-2 pr-3 font-medium">Uploaded by</th>
+                          <th className="pb-2 pr-3 font-medium">Uploaded</th>
+                          <th className="pb-2 font-medium"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-300">
+                        {documents.map((document) => (
+                          <React.Fragment key={document.id}>
+                            <tr className="border-t border-slate-700/50">
+                              <td className="max-w-[12rem] truncate py-2 pr-3" title={document.fileName}>{document.fileName}</td>
+                              <td className="py-2 pr-3 uppercase text-slate-400">{document.documentType}</td>
+                              <td className="py-2 pr-3 text-slate-400">{formatSize(document.size)}</td>
+                              <td className="py-2 pr-3 text-slate-400">{document.chunkCount}</td>
+                              <td className="py-2 pr-3 text-slate-400">{document.uploader || "—"}</td>
+                              <td className="py-2 pr-3 text-slate-400">{new Date(document.uploadedAt).toLocaleString()}</td>
+                              <td className="whitespace-nowrap py-2 text-right">
+                                <button
+                                  onClick={() => inspectDocument(document.id)}
+                                  className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-700/60"
+                                >
+                                  {inspected?.id === document.id ? "Hide" : "View"}
+                                </button>
+                                <button
+                                  onClick={() => deleteDocument(document)}
+                                  className="rounded-lg px-2 py-1 text-rose-300 hover:bg-rose-900/40"
+                                >
+                                  Delete
+                                </button>
+                              </td>
+                            </tr>
+                            {inspected?.id === document.id && (
+                              <tr>
+                                <td colSpan={7} className="pb-3">
+                                  <ul className="max-h-64 space-y-1.5 overflow-y-auto rounded-lg bg-slate-900/60 p-3">
+                                    {inspected.chunks.map((chunk) => (
+                                      <li key={chunk.id} className="text-slate-400">
+                                        <span className="text-slate-500">
+                                          {chunk.page !== undefined ? `p. ${chunk.page} · ` : ""}
+                                          {chunk.clausePath ? `${chunk.clausePath} · ` : ""}
+                                          {chunk.indexed ? "" : "not indexed · "}
+                                        </span>
+                                        {chunk.text.slice(0, 200)}
+                                        {chunk.text.length > 200 ? "…" : ""}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
+
+              {/* Namespaces */}
+              {isAdmin && (
+                <div className="rounded-2xl bg-slate-800/30 p-5 ring-1 ring-slate-700/50">
+                  <h3 className="text-sm font-semibold text-slate-200 mb-4">🗂️ Namespaces</h3>
+                  <ul className="space-y-1.5">
+                    {namespaces.map((namespace) => (
+                      <li
+                        key={namespace.name}
+                        className="flex items-center justify-between gap-3 rounded-lg bg-slate-900/60 px-3 py-2 text-xs"
+                      >
+                        <div>
+                          <p className="text-slate-200">
+                            {namespace.shared ? "Shared statute corpus" : namespace.workspace ?? namespace.name}
+                          </p>
+                          <p className="text-slate-500">
+                            {namespace.vectorCount.toLocaleString()} vectors · {namespace.documentCount} uploaded file(s)
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => clearNamespace(namespace)}
+                          disabled={(namespace.shared && jobActive) || (!namespace.vectorCount && !namespace.documentCount)}
+                          className="rounded-lg px-2 py-1 text-rose-300 hover:bg-rose-900/40 disabled:cursor-not-allowed disabled:text-slate-600 disabled:hover:bg-transparent"
+                        >
+                          Clear
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </section>
 
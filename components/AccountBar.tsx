@@ -0,0 +1,39 @@
+"use client";
+
+import Link from "next/link";
+import { signOut, useAuth } from "@/components/auth";
+
+/** Who is signed in, with links to the pages their role can open */
+export function AccountBar() {
+  const auth = useAuth();
+  if (auth.loading || !auth.authEnabled) return null;
+
+  return (
+    <nav className="flex items-center justify-end gap-3 text-xs text-slate-400">
+      {auth.can("uploader") && (
+        <Link href="/upload" className="hover:text-slate-200">
+          Documents
+        </Link>
+      )}
+      {auth.can("admin") && (
+        <Link href="/admin" className="hover:text-slate-200">
+          Admin
+        </Link>
+      )}
+      {auth.user ? (
+        <>
+          <span className="text-slate-500">
+            {auth.user.username} · {auth.role}
+          </span>
+          <button onClick={signOut} className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-800/80">
+            Sign out
+          </button>
+        </>
+      ) : (
+        <Link href="/login" className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-800/80">
+          Sign in
+        </Link>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,243 @@
+import type { SourceSnippet } from "@/lib/rag";
+import type { GroundingReport } from "@/lib/grounding";
+import { splitMarkers } from "@/lib/markers";
+import { clsx } from "clsx";
+
+type ParsedBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; items: string[] };
+
+function stripEmphasis(text: string): string {
+  // Remove **strong** and *emphasis* markers for cleaner display
+  return text.replace(/\*\*(.+?)\*\*/g, "$1").replace(/\*(.+?)\*/g, "$1");
+}
+
+function parseAssistantContent(text: string): ParsedBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: ParsedBlock[] = [];
+
+  let currentParagraph: string[] = [];
+  let currentList: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (currentParagraph.length) {
+      blocks.push({ type: "paragraph", text: currentParagraph.join(" ") });
+      currentParagraph = [];
+    }
+  };
+
+  const flushList = () => {
+    if (currentList && currentList.length) {
+      blocks.push({ type: "list", items: currentList.map(stripEmphasis) });
+      currentList = null;
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
+    if (headingMatch) {
+      flushParagraph();
+      flushList();
+      const headingText = stripEmphasis(headingMatch[2].trim());
+      if (headingText) {
+        blocks.push({ type: "heading", text: headingText });
+      }
+      continue;
+    }
+
+    const bulletMatch = line.match(/^[-*+]\s+(.*)$/);
+    const orderedMatch = line.match(/^\d+\.\s+(.*)$/);
+    const listMatch = bulletMatch || orderedMatch;
+    if (listMatch) {
+      flushParagraph();
+      if (!currentList) currentList = [];
+      currentList.push(listMatch[1].trim());
+      continue;
+    }
+
+    // Continuation lines: attach to last list item if a list is open, otherwise paragraph
+    if (currentList) {
+      const lastIndex = currentList.length - 1;
+      currentList[lastIndex] = `${currentList[lastIndex]} ${line}`;
+    } else {
+      currentParagraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  flushList();
+
+  return blocks;
+}
+
+type MarkerProps = {
+  // Called with the source number when a [n] chip is clicked; chips are static without it
+  onMarkerClick?: (marker: number) => void;
+  activeMarker?: number;
+};
+
+/** Text with its [n] source markers rendered as chips */
+function InlineText({ text, onMarkerClick, activeMarker }: { text: string } & MarkerProps) {
+  return (
+    <>
+      {splitMarkers(text).map((segment, index) =>
+        typeof segment === "string" ? (
+          segment
+        ) : (
+          <span key={index} className="whitespace-nowrap">
+            {segment.markers.map((marker) => (
+              <button
+                key={marker}
+                type="button"
+                onClick={onMarkerClick ? () => onMarkerClick(marker) : undefined}
+                disabled={!onMarkerClick}
+                className={clsx(
+                  "mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded-full px-1 align-super text-[9px] font-semibold transition",
+                  marker === activeMarker
+                    ? "bg-brand-400 text-slate-950"
+                    : "bg-brand-500/20 text-brand-200 enabled:hover:bg-brand-500/40",
+                )}
+              >
+                {marker}
+              </button>
+            ))}
+          </span>
+        ),
+      )}
+    </>
+  );
+}
+
+/** Renders an assistant answer (light markdown: headings, lists, paragraphs) */
+export function AnswerContent({ content, ...markerProps }: { content: string } & MarkerProps) {
+  return (
+    <div className="space-y-2 text-sm leading-relaxed">
+      {parseAssistantContent(content).map((block, index) => {
+        if (block.type === "heading") {
+          return (
+            <p key={index} className="font-semibold text-slate-100">
+              {block.text}
+            </p>
+          );
+        }
+        if (block.type === "list") {
+          return (
+            <ul key={index} className="ml-5 list-disc space-y-1 text-slate-200">
+              {block.items.map((item, i) => (
+                <li key={i}>
+                  <InlineText text={item} {...markerProps} />
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        return (
+          <p key={index} className="text-slate-100">
+            <InlineText text={block.text} {...markerProps} />
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Warns when the answer names sections that were not retrieved, or makes
+ * claims the grounding check could not match to their sources.
+ */
+export function GroundingWarning({ grounding }: { grounding?: GroundingReport }) {
+  if (!grounding) return null;
+  const missing = grounding.sections
+    .filter((section) => section.status === "not-in-context")
+    .map((section) => section.reference);
+  if (!missing.length && !grounding.unsupported) return null;
+
+  return (
+    <div className="mt-2 rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-[11px] text-amber-200">
+      {missing.length > 0 && (
+        <p>
+          This answer mentions {missing.join(", ")}, which {missing.length === 1 ? "was" : "were"} not among the
+          retrieved sections. Verify {missing.length === 1 ? "it" : "them"} independently.
+        </p>
+      )}
+      {grounding.unsupported > 0 && (
+        <p>
+          {grounding.unsupported} statement{grounding.unsupported === 1 ? "" : "s"} could not be matched to the cited
+          sections.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** DOM id of a source in a SourceList, so marker chips can scroll to it */
+export function sourceAnchorId(prefix: string, marker: number): string {
+  return `${prefix}-source-${marker}`;
+}
+
+/** Referenced sections for an answer, with in-force status and concordance */
+export function SourceList({
+  sources,
+  anchorPrefix,
+  highlightedMarker,
+}: {
+  sources: SourceSnippet[];
+  anchorPrefix?: string;
+  highlightedMarker?: number;
+}) {
+  return (
+    <ul className="space-y-1">
+      {sources.map((source) => (
+        <li
+          key={source.id}
+          id={anchorPrefix && source.marker ? sourceAnchorId(anchorPrefix, source.marker) : undefined}
+          className={clsx(
+            "flex flex-col rounded-lg",
+            source.marker !== undefined && source.marker === highlightedMarker && "bg-brand-500/10 ring-1 ring-brand-400/60",
+          )}
+        >
+          <span className="font-medium">
+            {source.marker !== undefined && <span className="mr-1 text-brand-300">[{source.marker}]</span>}
+            {source.act}
+            {source.section ? ` – Section ${source.section}` : ""}
+            {source.title ? `: ${source.title}` : ""}
+            {source.inForce !== undefined && (
+              <span
+                className={clsx(
+                  "ml-2 rounded-full px-1.5 py-0.5 text-[10px] font-semibold",
+                  source.inForce
+                    ? "bg-emerald-500/15 text-emerald-300"
+                    : "bg-amber-500/15 text-amber-300",
+                )}
+              >
+                {source.inForce ? "In force" : "Repealed"}
+              </span>
+            )}
+          </span>
+          {source.rerankScore !== undefined && (
+            <span className="text-[10px] text-slate-500">
+              Relevance {Math.round(source.rerankScore * 100)}%
+            </span>
+          )}
+          {source.correspondsTo && source.correspondsTo.length > 0 && (
+            <span className="text-[11px] text-slate-400">
+              Corresponds to {source.correspondsTo.join(", ")}
+            </span>
+          )}
+          <span className="line-clamp-2 text-slate-400">
+            {source.snippet}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
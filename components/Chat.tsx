@@ -1,7 +1,14 @@
 "use client";
 
 import { FormEvent, useEffect, useRef, useState } from "react";
-import { SourceSnippet } from "@/lib/rag";
+import type { ChatStreamEvent, SourceSnippet } from "@/lib/rag";
+import type { GroundingReport } from "@/lib/grounding";
+import type { Conversation, ConversationSummary } from "@/lib/conversations";
+import type { RetrievalFilters, SourceKind } from "@/lib/filters";
+import { ACTS, ActCode } from "@/lib/acts";
+import { readSSE } from "@/lib/sse";
+import { AnswerContent, GroundingWarning, SourceList, sourceAnchorId } from "@/components/Answer";
+import { workspaceHeaders } from "@/components/workspace";
 import { clsx } from "clsx";
 
 type Message = {
@@ -9,110 +16,155 @@ type Message = {
   role: "user" | "assistant";
   content: string;
   sources?: SourceSnippet[];
+  grounding?: GroundingReport;
+  failed?: boolean;
 };
 
-type ParsedBlock =
-  | { type: "heading"; text: string }
-  | { type: "paragraph"; text: string }
-  | { type: "list"; items: string[] };
+const GREETING: Message = {
+  id: 0,
+  role: "assistant",
+  content:
+    "Namaste! I am your Indian legal assistant. Ask me about criminal law, procedure, evidence, or specific sections under IPC, BNS, BSA, or CrPC.",
+};
 
-function stripEmphasis(text: string): string {
-  // Remove **strong** and *emphasis* markers for cleaner display
-  return text.replace(/\*\*(.+?)\*\*/g, "$1").replace(/\*(.+?)\*/g, "$1");
+const ACT_CODES = Object.keys(ACTS) as ActCode[];
+
+const SOURCE_OPTIONS: { value: SourceKind | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "legal_dataset", label: "Statutes" },
+  { value: "upload", label: "Uploads" },
+];
+
+function toMessages(conversation: Conversation): Message[] {
+  return [
+    GREETING,
+    ...conversation.messages.map((message, index) => ({
+      id: index + 1,
+      role: message.role,
+      content: message.content,
+      sources: message.sources,
+      grounding: message.grounding,
+    })),
+  ];
 }
 
-function parseAssistantContent(text: string): ParsedBlock[] {
-  const lines = text.split(/\r?\n/);
-  const blocks: ParsedBlock[] = [];
-
-  let currentParagraph: string[] = [];
-  let currentList: string[] | null = null;
-
-  const flushParagraph = () => {
-    if (currentParagraph.length) {
-      blocks.push({ type: "paragraph", text: currentParagraph.join(" ") });
-      currentParagraph = [];
-    }
-  };
+export function Chat() {
+  const [messages, setMessages] = useState<Message[]>([GREETING]);
+  const [input, setInput] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedSourcesForId, setExpandedSourcesForId] = useState<number | null>(null);
+  const [highlightedSource, setHighlightedSource] = useState<{ messageId: number; marker: number } | null>(null);
+  const [streamingId, setStreamingId] = useState<number | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [copiedShareId, setCopiedShareId] = useState<string | null>(null);
+  const [selectedActs, setSelectedActs] = useState<ActCode[]>([]);
+  const [sourceFilter, setSourceFilter] = useState<SourceKind | "all">("all");
+  const scrollRef = useRef<HTMLDivElement | null>(null);
 
-  const flushList = () => {
-    if (currentList && currentList.length) {
-      blocks.push({ type: "list", items: currentList.map(stripEmphasis) });
-      currentList = null;
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  };
+  }, [messages, isLoading]);
 
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
+  useEffect(() => {
+    loadConversations();
+  }, []);
 
-    if (!line) {
-      flushParagraph();
-      flushList();
-      continue;
+  async function loadConversations() {
+    try {
+      const res = await fetch("/api/conversations", { headers: workspaceHeaders() });
+      if (!res.ok) return;
+      const data = (await res.json()) as { conversations: ConversationSummary[] };
+      setConversations(data.conversations);
+    } catch (err) {
+      console.error("Failed to load conversations:", err);
     }
+  }
 
-    const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
-    if (headingMatch) {
-      flushParagraph();
-      flushList();
-      const headingText = stripEmphasis(headingMatch[2].trim());
-      if (headingText) {
-        blocks.push({ type: "heading", text: headingText });
-      }
-      continue;
+  function startNewConversation() {
+    if (isLoading) return;
+    setConversationId(null);
+    setMessages([GREETING]);
+    setError(null);
+  }
+
+  async function openConversation(id: string) {
+    if (isLoading || id === conversationId) return;
+    try {
+      const res = await fetch(`/api/conversations/${id}`, { headers: workspaceHeaders() });
+      if (!res.ok) throw new Error("Could not load that conversation.");
+      const conversation = (await res.json()) as Conversation;
+      setConversationId(conversation.id);
+      setMessages(toMessages(conversation));
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
     }
+  }
 
-    const bulletMatch = line.match(/^[-*+]\s+(.*)$/);
-    const orderedMatch = line.match(/^\d+\.\s+(.*)$/);
-    const listMatch = bulletMatch || orderedMatch;
-    if (listMatch) {
-      flushParagraph();
-      if (!currentList) currentList = [];
-      currentList.push(listMatch[1].trim());
-      continue;
+  async function deleteConversation(id: string) {
+    if (isLoading) return;
+    try {
+      const res = await fetch(`/api/conversations/${id}`, { method: "DELETE", headers: workspaceHeaders() });
+      if (!res.ok && res.status !== 404) throw new Error("Could not delete that conversation.");
+      setConversations((prev) => prev.filter((conversation) => conversation.id !== id));
+      if (id === conversationId) startNewConversation();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Unexpected error");
     }
+  }
 
-    // Continuation lines: attach to last list item if a list is open, otherwise paragraph
-    if (currentList) {
-      const lastIndex = currentList.length - 1;
-      currentList[lastIndex] = `${currentList[lastIndex]} ${line}`;
-    } else {
-      currentParagraph.push(line);
+  async function copyShareLink(shareId: string) {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/share/${shareId}`);
+      setCopiedShareId(shareId);
+      setTimeout(() => setCopiedShareId((current) => (current === shareId ? null : current)), 2000);
+    } catch (err) {
+      console.error("Failed to copy share link:", err);
     }
   }
 
-  flushParagraph();
-  flushList();
+  // A [n] chip opens the message's sources and scrolls to source n
+  function showSource(messageId: number, marker: number) {
+    setExpandedSourcesForId(messageId);
+    setHighlightedSource({ messageId, marker });
+    setTimeout(() => {
+      document
+        .getElementById(sourceAnchorId(`message-${messageId}`, marker))
+        ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }, 0);
+  }
 
-  return blocks;
-}
+  function toggleAct(code: ActCode) {
+    setSelectedActs((current) =>
+      current.includes(code) ? current.filter((act) => act !== code) : [...current, code],
+    );
+  }
 
-export function Chat() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 0,
-      role: "assistant",
-      content:
-        "Namaste! I am your Indian legal assistant. Ask me about criminal law, procedure, evidence, or specific sections under IPC, BNS, BSA, or CrPC.",
-    },
-  ]);
-  const [input, setInput] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [expandedSourcesForId, setExpandedSourcesForId] = useState<number | null>(null);
-  const scrollRef = useRef<HTMLDivElement | null>(null);
+  // Act chips apply to statutes only; uploaded files carry their own act names
+  function buildFilters(): RetrievalFilters | undefined {
+    if (sourceFilter === "upload") return { source: "upload" };
+    if (!selectedActs.length && sourceFilter === "all") return undefined;
+    return {
+      acts: selectedActs.length ? selectedActs : undefined,
+      source: sourceFilter === "all" ? undefined : sourceFilter,
+    };
+  }
 
-  useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-    }
-  }, [messages, isLoading]);
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     setError(null);
     const question = input.trim();
     if (!question || isLoading) return;
 
+    // Prior turns for follow-up questions; the greeting and error notices are not part of the conversation
+    const history = messages
+      .filter((message) => message.id !== 0 && !message.failed && message.content.trim())
+      .map((message) => ({ role: message.role, content: message.content }));
+
     const userMessage: Message = {
       id: Date.now(),
       role: "user",
@@ -123,43 +175,86 @@ export function Chat() {
     setInput("");
     setIsLoading(true);
 
+    const assistantId = Date.now() + 1;
+    let receivedAnswer = false;
+
+    const updateAssistant = (update: (message: Message) => Message) => {
+      setMessages((prev) => prev.map((message) => (message.id === assistantId ? update(message) : message)));
+    };
+
     try {
+      // The first question of a thread creates the server-side conversation it is saved to
+      let activeConversationId = conversationId;
+      if (!activeConversationId) {
+        const created = await fetch("/api/conversations", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...workspaceHeaders() },
+          body: JSON.stringify({ title: question }),
+        });
+        if (created.ok) {
+          activeConversationId = ((await created.json()) as Conversation).id;
+          setConversationId(activeConversationId);
+        }
+      }
+
       const res = await fetch("/api/chat", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question }),
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream", ...workspaceHeaders() },
+        body: JSON.stringify({
+          question,
+          history,
+          stream: true,
+          conversationId: activeConversationId ?? undefined,
+          filters: buildFilters(),
+        }),
       });
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         const data = (await res.json().catch(() => ({}))) as { error?: string };
         throw new Error(data.error || "Something went wrong while contacting the legal assistant.");
       }
 
-      const data = (await res.json()) as { answer: string; sources: SourceSnippet[] };
+      setMessages((prev) => [...prev, { id: assistantId, role: "assistant", content: "" }]);
+      setStreamingId(assistantId);
+
+      for await (const message of readSSE(res.body)) {
+        const event = JSON.parse(message.data) as ChatStreamEvent;
+
+        if (event.type === "sources") {
+          updateAssistant((m) => ({ ...m, sources: event.sources }));
+        } else if (event.type === "token") {
+          receivedAnswer = true;
+          updateAssistant((m) => ({ ...m, content: m.content + event.delta }));
+        } else if (event.type === "done") {
+          receivedAnswer = true;
+          updateAssistant((m) => ({ ...m, content: event.answer, grounding: event.grounding }));
+        } else if (event.type === "error") {
+          throw new Error(event.message);
+        }
+      }
 
-      const assistantMessage: Message = {
-        id: Date.now() + 1,
-        role: "assistant",
-        content: data.answer,
-        sources: data.sources,
-      };
+      if (!receivedAnswer) {
+        throw new Error("The legal assistant closed the connection before answering.");
+      }
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      loadConversations();
     } catch (err: unknown) {
       console.error(err);
       const message = err instanceof Error ? err.message : "Unexpected error";
       setError(message);
       setMessages((prev) => [
-        ...prev,
+        ...prev.filter((m) => m.id !== assistantId || m.content),
         {
           id: Date.now() + 2,
           role: "assistant",
           content:
             "I ran into a technical issue while answering your question. Please try again in a moment.",
+          failed: true,
         },
       ]);
     } finally {
       setIsLoading(false);
+      setStreamingId(null);
     }
   }
 
@@ -188,105 +283,85 @@ export function Chat() {
           ref={scrollRef}
           className="chat-scroll flex-1 space-y-4 overflow-y-auto px-4 py-4 sm:px-6 sm:py-5 max-h-[60vh]"
         >
-          {messages.map((message) => (
-            <article
-              key={message.id}
-              className={clsx("flex gap-3", message.role === "user" ? "justify-end" : "justify-start")}
-            >
-              {message.role === "assistant" && (
-                <div className="mt-1 flex h-8 w-8 items-center justify-center rounded-full bg-brand-500/90 text-xs font-semibold shadow-lg shadow-brand-500/40">
-                  SE
-                </div>
-              )}
-
-              <div
-                className={clsx(
-                  "max-w-[80%] rounded-2xl px-4 py-3 text-sm leading-relaxed shadow-md",
-                  message.role === "user"
-                    ? "bg-brand-500 text-slate-50 shadow-brand-500/40"
-                    : "bg-slate-900/80 text-slate-100 ring-1 ring-slate-700/80",
-                )}
+          {messages
+            .filter((message) => message.role === "user" || message.content)
+            .map((message) => (
+              <article
+                key={message.id}
+                className={clsx("flex gap-3", message.role === "user" ? "justify-end" : "justify-start")}
               >
-                {message.role === "assistant" ? (
-                  <>
-                    <div className="space-y-2 text-sm leading-relaxed">
-                      {parseAssistantContent(message.content).map((block, index) => {
-                        if (block.type === "heading") {
-                          return (
-                            <p key={index} className="font-semibold text-slate-100">
-                              {block.text}
-                            </p>
-                          );
+                {message.role === "assistant" && (
+                  <div className="mt-1 flex h-8 w-8 items-center justify-center rounded-full bg-brand-500/90 text-xs font-semibold shadow-lg shadow-brand-500/40">
+                    SE
+                  </div>
+                )}
+  
+                <div
+                  className={clsx(
+                    "max-w-[80%] rounded-2xl px-4 py-3 text-sm leading-relaxed shadow-md",
+                    message.role === "user"
+                      ? "bg-brand-500 text-slate-50 shadow-brand-500/40"
+                      : "bg-slate-900/80 text-slate-100 ring-1 ring-slate-700/80",
+                  )}
+                >
+                  {message.role === "assistant" ? (
+                    <>
+                      <AnswerContent
+                        content={message.content}
+                        onMarkerClick={
+                          message.sources?.length ? (marker) => showSource(message.id, marker) : undefined
                         }
-                        if (block.type === "list") {
-                          return (
-                            <ul key={index} className="ml-5 list-disc space-y-1 text-slate-200">
-                              {block.items.map((item, i) => (
-                                <li key={i}>{item}</li>
-                              ))}
-                            </ul>
-                          );
+                        activeMarker={
+                          highlightedSource?.messageId === message.id ? highlightedSource.marker : undefined
                         }
-                        return (
-                          <p key={index} className="text-slate-100">
-                            {block.text}
-                          </p>
-                        );
-                      })}
-                    </div>
-
-                    {message.sources && message.sources.length > 0 && (
-                      <div className="mt-2">
-                        <button
-                          type="button"
-                          onClick={() =>
-                            setExpandedSourcesForId((current) =>
-                              current === message.id ? null : message.id,
-                            )
-                          }
-                          className="text-xs font-medium text-brand-300 hover:text-brand-200 underline-offset-2 hover:underline"
-                        >
-                          {expandedSourcesForId === message.id
-                            ? "Hide referenced sections"
-                            : "Show referenced sections"}
-                        </button>
-
-                        {expandedSourcesForId === message.id && (
-                          <div className="mt-2 border-t border-slate-700/70 pt-2 text-xs text-slate-300">
-                            <ul className="space-y-1">
-                              {message.sources.map((source) => (
-                                <li key={source.id} className="flex flex-col">
-                                  <span className="font-medium">
-                                    {source.act}
-                                    {source.section ? ` – Section ${source.section}` : ""}
-                                    {source.title ? `: ${source.title}` : ""}
-                                  </span>
-                                  <span className="line-clamp-2 text-slate-400">
-                                    {source.snippet}
-                                  </span>
-                                </li>
-                              ))}
-                            </ul>
-                          </div>
-                        )}
-                      </div>
-                    )}
-                  </>
-                ) : (
-                  <p className="whitespace-pre-wrap">{message.content}</p>
-                )}
-
-              </div>
-
-              {message.role === "user" && (
-                <div className="mt-1 flex h-8 w-8 items-center justify-center rounded-full bg-slate-800 text-xs font-semibold text-slate-100 shadow-lg">
-                  You
+                      />
+                      <GroundingWarning grounding={message.grounding} />
+  
+                      {message.sources && message.sources.length > 0 && (
+                        <div className="mt-2">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setExpandedSourcesForId((current) =>
+                                current === message.id ? null : message.id,
+                              )
+                            }
+                            className="text-xs font-medium text-brand-300 hover:text-brand-200 underline-offset-2 hover:underline"
+                          >
+                            {expandedSourcesForId === message.id
+                              ? "Hide referenced sections"
+                              : "Show referenced sections"}
+                          </button>
+  
+                          {expandedSourcesForId === message.id && (
+                            <div className="mt-2 border-t border-slate-700/70 pt-2 text-xs text-slate-300">
+                              <SourceList
+                                sources={message.sources}
+                                anchorPrefix={`message-${message.id}`}
+                                highlightedMarker={
+                                  highlightedSource?.messageId === message.id ? highlightedSource.marker : undefined
+                                }
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  )}
+  
                 </div>
-              )}
-            </article>
-          ))}
+  
+                {message.role === "user" && (
+                  <div className="mt-1 flex h-8 w-8 items-center justify-center rounded-full bg-slate-800 text-xs font-semibold text-slate-100 shadow-lg">
+                    You
+                  </div>
+                )}
+              </article>
+            ))}
 
-          {isLoading && (
+          {isLoading && !messages.some((message) => message.id === streamingId && message.content) && (
             <div className="flex items-center gap-2 text-xs text-slate-400">
               <span className="h-2 w-2 animate-bounce rounded-full bg-brand-400" />
               <span className="h-2 w-2 animate-bounce rounded-full bg-brand-400 [animation-delay:0.12s]" />
@@ -300,9 +375,45 @@ export function Chat() {
           )}
         </div>
 
+        <div className="flex flex-wrap items-center gap-1.5 border-t border-slate-800/60 bg-slate-900/70 px-4 pt-3 text-[11px] sm:px-6">
+          {SOURCE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setSourceFilter(option.value)}
+              className={clsx(
+                "rounded-full border px-2.5 py-0.5 font-medium transition",
+                sourceFilter === option.value
+                  ? "border-brand-400 bg-brand-500/20 text-brand-100"
+                  : "border-slate-700/70 text-slate-400 hover:border-brand-400 hover:text-brand-200",
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+          <span className="mx-1 h-4 w-px bg-slate-700/70" />
+          {ACT_CODES.map((code) => (
+            <button
+              key={code}
+              type="button"
+              onClick={() => toggleAct(code)}
+              disabled={sourceFilter === "upload"}
+              title={ACTS[code].name}
+              className={clsx(
+                "rounded-full border px-2.5 py-0.5 font-medium transition disabled:cursor-not-allowed disabled:opacity-40",
+                selectedActs.includes(code)
+                  ? "border-brand-400 bg-brand-500/20 text-brand-100"
+                  : "border-slate-700/70 text-slate-400 hover:border-brand-400 hover:text-brand-200",
+              )}
+            >
+              {code}
+            </button>
+          ))}
+        </div>
+
         <form
           onSubmit={handleSubmit}
-          className="flex flex-col gap-3 border-t border-slate-800/60 bg-slate-900/70 px-4 py-3 sm:flex-row sm:items-center sm:px-6"
+          className="flex flex-col gap-3 bg-slate-900/70 px-4 py-3 sm:flex-row sm:items-center sm:px-6"
         >
           <div className="flex-1">
             <input
@@ -325,7 +436,59 @@ export function Chat() {
       </section>
 
       <aside className="hidden flex-col gap-3 rounded-3xl border border-slate-800/60 bg-slate-950/50 p-5 shadow-[0_0_40px_rgba(15,23,42,0.9)] backdrop-blur-xl lg:flex">
-        <h3 className="text-sm font-semibold text-slate-200">Example questions</h3>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-200">Conversations</h3>
+          <button
+            type="button"
+            onClick={startNewConversation}
+            disabled={isLoading}
+            className="rounded-full border border-slate-700/70 px-2.5 py-1 text-[11px] font-medium text-slate-300 transition hover:border-brand-400 hover:text-brand-200 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            New chat
+          </button>
+        </div>
+        {conversations.length === 0 ? (
+          <p className="text-xs text-slate-500">Your past threads will appear here.</p>
+        ) : (
+          <ul className="chat-scroll max-h-64 space-y-1 overflow-y-auto text-xs">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={clsx(
+                  "group flex items-center gap-2 rounded-xl px-2 py-1.5",
+                  conversation.id === conversationId
+                    ? "bg-brand-500/15 text-slate-100"
+                    : "text-slate-400 hover:bg-slate-900/70",
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => openConversation(conversation.id)}
+                  className="flex-1 truncate text-left"
+                  title={conversation.title}
+                >
+                  {conversation.title}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => copyShareLink(conversation.shareId)}
+                  className="text-[10px] text-slate-500 hover:text-brand-200"
+                >
+                  {copiedShareId === conversation.shareId ? "Copied" : "Share"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteConversation(conversation.id)}
+                  className="text-[10px] text-slate-500 hover:text-rose-300"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h3 className="mt-3 text-sm font-semibold text-slate-200">Example questions</h3>
         <ul className="space-y-2 text-xs text-slate-400">
           <li>• What is the punishment for theft under the Indian Penal Code?</li>
           <li>• What sections apply if someone threatens me with physical harm?</li>
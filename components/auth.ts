@@ -0,0 +1,41 @@
+/**
+ * The signed-in user as reported by /api/auth/me, so pages can hide actions
+ * the user's role cannot perform. The server enforces the same roles; this
+ * only keeps the UI honest.
+ */
+
+import { useEffect, useState } from "react";
+import { hasRole, Role } from "@/lib/auth/roles";
+import { saveWorkspace } from "@/components/workspace";
+
+export type AuthState = {
+  loading: boolean;
+  authEnabled: boolean;
+  user: { username: string; workspace: string | null } | null;
+  role: Role | null;
+};
+
+export function useAuth(): AuthState & { can: (required: Role) => boolean } {
+  const [state, setState] = useState<AuthState>({ loading: true, authEnabled: true, user: null, role: null });
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => response.json())
+      .then((data: Omit<AuthState, "loading">) => {
+        // Only admins choose their workspace; keep everyone else's requests on the one assigned to them
+        if (data.role !== "admin") saveWorkspace(data.user?.workspace ?? "");
+        setState({ loading: false, authEnabled: data.authEnabled, user: data.user, role: data.role });
+      })
+      .catch((err) => {
+        console.error("Failed to load the signed-in user:", err);
+        setState((current) => ({ ...current, loading: false }));
+      });
+  }, []);
+
+  return { ...state, can: (required: Role) => hasRole(state.role, required) };
+}
+
+export async function signOut() {
+  await fetch("/api/auth/logout", { method: "POST" });
+  window.location.assign("/login");
+}
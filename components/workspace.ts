@@ -0,0 +1,22 @@
+/**
+ * The workspace chosen in this browser. It is sent with chat, upload and
+ * document requests as the X-Workspace header (see lib/workspaces.ts); an
+ * empty value means the default workspace.
+ */
+
+const STORAGE_KEY = "sytha.workspace";
+
+export function loadWorkspace(): string {
+  if (typeof window === "undefined") return "";
+  return window.localStorage.getItem(STORAGE_KEY) ?? "";
+}
+
+export function saveWorkspace(workspace: string) {
+  const value = workspace.trim().toLowerCase();
+  if (value) window.localStorage.setItem(STORAGE_KEY, value);
+  else window.localStorage.removeItem(STORAGE_KEY);
+}
+
+export function workspaceHeaders(workspace: string = loadWorkspace()): Record<string, string> {
+  return workspace ? { "X-Workspace": workspace } : {};
+}
@@ -0,0 +1,100 @@
+/**
+ * Registry of the criminal codes the assistant specialises in
+ *
+ * `indexNames` lists every value the `act` metadata field can take for a code
+ * in the vector index (the short CSV name and the statute JSON title), so a
+ * code can be looked up regardless of which dataset file it came from.
+ */
+
+export type ActCode = "IPC" | "BNS" | "CrPC" | "BNSS" | "IEA" | "BSA";
+
+export type ActInfo = {
+  code: ActCode;
+  name: string;
+  indexNames: string[];
+  aliases: string[];
+  inForce: boolean;
+  replacedBy?: ActCode;
+  replaces?: ActCode;
+};
+
+// The three new codes came into force on 1 July 2024
+export const NEW_CODES_IN_FORCE_FROM = "2024-07-01";
+
+export const ACTS: Record<ActCode, ActInfo> = {
+  IPC: {
+    code: "IPC",
+    name: "Indian Penal Code, 1860",
+    indexNames: ["IPC", "Indian Penal Code"],
+    aliases: ["ipc", "indian penal code", "penal code"],
+    inForce: false,
+    replacedBy: "BNS",
+  },
+  BNS: {
+    code: "BNS",
+    name: "Bharatiya Nyaya Sanhita, 2023",
+    indexNames: ["BNS", "Bharatiya Nyaya Sanhita, 2023"],
+    aliases: ["bns", "bharatiya nyaya sanhita", "nyaya sanhita"],
+    inForce: true,
+    replaces: "IPC",
+  },
+  CrPC: {
+    code: "CrPC",
+    name: "Code of Criminal Procedure, 1973",
+    indexNames: ["CrPC", "Code of Criminal Procedure, 1973"],
+    aliases: ["crpc", "cr.p.c", "cr.p.c.", "code of criminal procedure", "criminal procedure code"],
+    inForce: false,
+    replacedBy: "BNSS",
+  },
+  BNSS: {
+    code: "BNSS",
+    name: "Bharatiya Nagarik Suraksha Sanhita, 2023",
+    indexNames: ["BNSS", "Bharatiya Nagarik Suraksha Sanhita, 2023"],
+    aliases: ["bnss", "bharatiya nagarik suraksha sanhita", "nagarik suraksha sanhita"],
+    inForce: true,
+    replaces: "CrPC",
+  },
+  IEA: {
+    code: "IEA",
+    name: "Indian Evidence Act, 1872",
+    indexNames: ["IEA", "Indian Evidence Act, 1872"],
+    aliases: ["iea", "indian evidence act", "evidence act"],
+    inForce: false,
+    replacedBy: "BSA",
+  },
+  BSA: {
+    code: "BSA",
+    name: "Bharatiya Sakshya Adhiniyam, 2023",
+    indexNames: ["BSA", "Bharatiya Sakshya Adhiniyam, 2023"],
+    aliases: ["bsa", "bharatiya sakshya adhiniyam", "sakshya adhiniyam"],
+    inForce: true,
+    replaces: "IEA",
+  },
+};
+
+function normalizeActName(value: string): string {
+  return value.toLowerCase().replace(/[,]?\s*\d{4}$/, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Resolve a code, alias or index act name ("IPC", "Indian Penal Code",
+ * "Code of Criminal Procedure, 1973") to its registry entry.
+ */
+export function resolveAct(value: string | undefined): ActInfo | undefined {
+  if (!value) return undefined;
+  const normalized = normalizeActName(value);
+
+  return Object.values(ACTS).find(
+    (act) =>
+      act.code.toLowerCase() === normalized ||
+      act.aliases.includes(normalized) ||
+      act.indexNames.some((name) => normalizeActName(name) === normalized),
+  );
+}
+
+/**
+ * "318(4)" -> "318", "41A" -> "41A"
+ */
+export function baseSection(section: string): string {
+  return section.trim().replace(/\(.*$/, "").trim().toUpperCase();
+}
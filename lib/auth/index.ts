@@ -0,0 +1,115 @@
+/**
+ * Authentication and role checks for route handlers. Requests carry either a
+ * signed session cookie (from /api/auth/login) or an API key as a Bearer
+ * token; either way the user's current role is read from the user store, so
+ * role changes and removals take effect immediately. The middleware makes a
+ * cheaper first check from the cookie alone; it imports ./roles and ./session
+ * directly, since this module needs Node.js.
+ */
+
+import { getUserStore, User } from "./users";
+import { hasRole, Role } from "./roles";
+import { getAuthSettings, readCookie, SESSION_COOKIE, signSession, verifySession } from "./session";
+import { DEFAULT_WORKSPACE, WORKSPACE_HEADER, parseWorkspace, workspaceFromRequest } from "../workspaces";
+
+export * from "./roles";
+export { AuthConfigError, SESSION_COOKIE, getAuthSettings, readCookie, signSession, verifySession } from "./session";
+export type { AuthSettings, SessionPayload } from "./session";
+export { UserStore, UserStoreError, getUserStore, hashPassword, parseUsername, verifyPassword } from "./users";
+export type { ApiKey, User } from "./users";
+
+export type Principal = {
+  // Owner key for stored data such as conversations; null for anonymous requests and when auth is disabled
+  id: string | null;
+  // Null for anonymous requests and when auth is disabled
+  username: string | null;
+  role: Role;
+  workspace?: string;
+  via: "session" | "api-key" | "anonymous" | "disabled";
+};
+
+export class AuthError extends Error {
+  constructor(
+    readonly status: 401 | 403,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+function principalFor(user: User, via: Principal["via"]): Principal {
+  return { id: user.username, username: user.username, role: user.role, workspace: user.workspace, via };
+}
+
+/** Who made the request, or null when it carries no valid credentials */
+export async function identify(request: Request): Promise<Principal | null> {
+  const settings = getAuthSettings();
+  if (!settings.enabled) return { id: null, username: null, role: "admin", via: "disabled" };
+
+  const authorization = request.headers.get("authorization");
+  if (authorization) {
+    const [scheme, key] = authorization.split(" ");
+    const user = scheme?.toLowerCase() === "bearer" && key ? await getUserStore().findByApiKey(key) : null;
+    if (!user) throw new AuthError(401, "Invalid API key");
+    return principalFor(user, "api-key");
+  }
+
+  const session = await verifySession(readCookie(request.headers.get("cookie"), SESSION_COOKIE), settings.secret);
+  const user = session ? await getUserStore().get(session.sub) : null;
+  if (user) return principalFor(user, "session");
+
+  return settings.anonymousRole ? { id: null, username: null, role: settings.anonymousRole, via: "anonymous" } : null;
+}
+
+/** Identify the caller and require at least `required`; throws AuthError with 401 or 403 */
+export async function authenticate(request: Request, required: Role): Promise<Principal> {
+  const principal = await identify(request);
+  if (!principal || (principal.via === "anonymous" && !hasRole(principal.role, required))) {
+    throw new AuthError(401, "Sign in to continue");
+  }
+  if (!hasRole(principal.role, required)) {
+    throw new AuthError(403, `This action needs the ${required} role`);
+  }
+  return principal;
+}
+
+/**
+ * The workspace a request acts in. Admins choose any workspace with the
+ * X-Workspace header; everyone else is held to the workspace assigned to them.
+ */
+export function requestWorkspace(request: Request, principal: Principal): string {
+  if (principal.role === "admin") return workspaceFromRequest(request);
+
+  const assigned = principal.workspace ?? DEFAULT_WORKSPACE;
+  const header = request.headers.get(WORKSPACE_HEADER);
+  if (header && parseWorkspace(header) !== assigned) {
+    throw new AuthError(403, `You can only use the "${assigned}" workspace`);
+  }
+  return assigned;
+}
+
+/** Who is asking and in which workspace, for scoping stored data such as conversations */
+export type RequestScope = {
+  workspace: string;
+  owner: string | null;
+  admin: boolean;
+};
+
+export function requestScope(request: Request, principal: Principal): RequestScope {
+  return {
+    workspace: requestWorkspace(request, principal),
+    owner: principal.id,
+    admin: principal.role === "admin",
+  };
+}
+
+/** A session token for a user who just signed in, and how long it lasts */
+export async function createSession(user: User): Promise<{ token: string; maxAge: number }> {
+  const { secret, sessionSeconds } = getAuthSettings();
+  const token = await signSession(
+    { sub: user.username, role: user.role, exp: Math.floor(Date.now() / 1000) + sessionSeconds },
+    secret,
+  );
+  return { token, maxAge: sessionSeconds };
+}
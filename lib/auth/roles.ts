@@ -0,0 +1,37 @@
+/**
+ * Roles and the minimum role each route needs. Shared by the middleware and
+ * the route handlers, so it must stay free of Node.js-only imports.
+ */
+
+export type Role = "viewer" | "uploader" | "admin";
+
+// Lowest to highest; each role can do everything the ones before it can
+export const ROLES: Role[] = ["viewer", "uploader", "admin"];
+
+export type RouteAccess = Role | "public";
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && ROLES.includes(value as Role);
+}
+
+export function hasRole(role: Role | null | undefined, required: Role): boolean {
+  return Boolean(role) && ROLES.indexOf(role!) >= ROLES.indexOf(required);
+}
+
+const ROUTE_RULES: { pattern: RegExp; methods?: string[]; access: RouteAccess }[] = [
+  { pattern: /^\/(login|share)(\/|$)/, access: "public" },
+  { pattern: /^\/api\/(auth|health)(\/|$)/, access: "public" },
+  { pattern: /^\/admin(\/|$)/, access: "admin" },
+  { pattern: /^\/api\/pinecone\/(index|jobs|namespaces)(\/|$)/, access: "admin" },
+  { pattern: /^\/upload(\/|$)/, access: "uploader" },
+  { pattern: /^\/api\/upload(\/|$)/, access: "uploader" },
+  { pattern: /^\/api\/documents\/[^/]+$/, methods: ["DELETE"], access: "uploader" },
+];
+
+/** Minimum role for a request; everything not listed needs a viewer */
+export function routeAccess(pathname: string, method: string): RouteAccess {
+  const rule = ROUTE_RULES.find(
+    (candidate) => candidate.pattern.test(pathname) && (!candidate.methods || candidate.methods.includes(method)),
+  );
+  return rule?.access ?? "viewer";
+}
@@ -0,0 +1,127 @@
+/**
+ * Auth settings and HMAC-SHA256 signed session tokens. Uses Web Crypto only,
+ * so the edge middleware can verify sessions without touching the user store.
+ */
+
+import { isRole, Role } from "./roles";
+
+export const SESSION_COOKIE = "sytha_session";
+
+const MIN_SECRET_LENGTH = 32;
+// The AUTH_SECRET in .env.example, which is long enough but public
+const PLACEHOLDER_SECRET = "REPLACE_WITH_A_LONG_RANDOM_STRING";
+
+export type AuthSettings = {
+  enabled: boolean;
+  secret: string;
+  sessionSeconds: number;
+  // Role of requests without a session or API key; null requires signing in
+  anonymousRole: Role | null;
+};
+
+export type SessionPayload = {
+  // Username
+  sub: string;
+  role: Role;
+  // Expiry, in seconds since the epoch
+  exp: number;
+};
+
+/** Auth settings the server cannot check access with; the message names the variable to fix */
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthConfigError";
+  }
+}
+
+/**
+ * Read the auth settings. Reads the environment directly (rather than through
+ * getEnvConfig) so the middleware does not validate unrelated configuration.
+ */
+export function getAuthSettings(): AuthSettings {
+  const enabled = (process.env.AUTH_ENABLED || "true").toLowerCase() !== "false";
+  const secret = process.env.AUTH_SECRET || "";
+  if (enabled && (secret.length < MIN_SECRET_LENGTH || secret === PLACEHOLDER_SECRET)) {
+    const problem = !secret
+      ? "AUTH_SECRET is not set"
+      : secret === PLACEHOLDER_SECRET
+        ? "AUTH_SECRET still has the placeholder value from .env.example"
+        : `AUTH_SECRET is shorter than ${MIN_SECRET_LENGTH} characters`;
+    throw new AuthConfigError(
+      `${problem}. Set it to a random string of at least ${MIN_SECRET_LENGTH} characters (e.g. openssl rand -base64 48) and restart, or set AUTH_ENABLED=false for local development only.`,
+    );
+  }
+
+  const hours = Number(process.env.AUTH_SESSION_HOURS || 12);
+  if (!Number.isFinite(hours) || hours <= 0 || hours > 24 * 30) {
+    throw new AuthConfigError("AUTH_SESSION_HOURS must be a number between 0 and 720");
+  }
+
+  const anonymous = (process.env.AUTH_ANONYMOUS_ROLE || "viewer").toLowerCase();
+  if (anonymous !== "none" && !isRole(anonymous)) {
+    throw new AuthConfigError('AUTH_ANONYMOUS_ROLE must be "none", "viewer", "uploader" or "admin"');
+  }
+
+  return {
+    enabled,
+    secret,
+    sessionSeconds: Math.round(hours * 3600),
+    anonymousRole: anonymous === "none" ? null : (anonymous as Role),
+  };
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+export async function signSession(payload: SessionPayload, secret: string): Promise<string> {
+  const body = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret), new TextEncoder().encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/** The payload of a validly signed, unexpired token, or null */
+export async function verifySession(token: string | undefined, secret: string): Promise<SessionPayload | null> {
+  const [body, signature, extra] = (token ?? "").split(".");
+  if (!body || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(secret),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(body),
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as SessionPayload;
+    if (typeof payload.sub !== "string" || !isRole(payload.role) || typeof payload.exp !== "number") return null;
+    return payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Value of one cookie from a Cookie header */
+export function readCookie(header: string | null, name: string): string | undefined {
+  for (const part of (header ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
@@ -0,0 +1,225 @@
+/**
+ * Local user accounts: scrypt password hashes and hashed API keys, kept in one
+ * JSON file (AUTH_USERS_PATH, default data/users.json) readable only by the
+ * server's user. Managed with `npm run users`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { Role } from "./roles";
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  // SHA-256 of the whole key; the key itself is shown once, when created
+  hash: string;
+  createdAt: string;
+};
+
+export type User = {
+  username: string;
+  role: Role;
+  // Workspace the user is limited to; absent means the default workspace. Admins may use any.
+  workspace?: string;
+  // Absent for accounts that only use API keys
+  passwordHash?: string;
+  apiKeys: ApiKey[];
+  createdAt: string;
+};
+
+export class UserStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserStoreError";
+  }
+}
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._@-]{0,63}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const API_KEY_PREFIX = "sytha";
+
+// scrypt cost parameters, stored with each hash so they can be raised later
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEY_LENGTH = 32;
+
+function deriveKey(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, { N, r, p }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserStoreError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), Number(N), Number(r), Number(p));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function parseUsername(value: string): string {
+  const username = value.trim().toLowerCase();
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new UserStoreError(`Invalid username "${value}". Use up to 64 lowercase letters, digits, ".", "_", "@" or "-".`);
+  }
+  return username;
+}
+
+export class UserStore {
+  // Read-modify-write updates run one after another
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async readAll(): Promise<User[]> {
+    if (!fs.existsSync(this.filePath)) return [];
+    return JSON.parse(await fs.promises.readFile(this.filePath, "utf-8")) as User[];
+  }
+
+  private async writeAll(users: User[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(users, null, 2), { encoding: "utf-8", mode: 0o600 });
+    await fs.promises.rename(temp, this.filePath);
+  }
+
+  private update<T>(change: (users: User[]) => { users: User[]; result: T }): Promise<T> {
+    const run = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const { users, result } = change(await this.readAll());
+        await this.writeAll(users);
+        return result;
+      });
+    this.writing = run;
+    return run;
+  }
+
+  // Apply a change to one existing user
+  private updateUser<T>(username: string, change: (user: User) => T): Promise<T> {
+    return this.update((users) => {
+      const user = users.find((candidate) => candidate.username === username);
+      if (!user) throw new UserStoreError(`No user named "${username}"`);
+      return { users, result: change(user) };
+    });
+  }
+
+  async list(): Promise<User[]> {
+    await this.writing.catch(() => undefined);
+    return (await this.readAll()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async get(username: string): Promise<User | null> {
+    return (await this.list()).find((user) => user.username === username) ?? null;
+  }
+
+  /** The user whose password matches, or null */
+  async verifyLogin(username: string, password: string): Promise<User | null> {
+    const user = await this.get(username.trim().toLowerCase());
+    if (!user?.passwordHash) return null;
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  }
+
+  /** The owner of an API key, or null */
+  async findByApiKey(key: string): Promise<User | null> {
+    const hash = Buffer.from(hashApiKey(key), "hex");
+    return (
+      (await this.list()).find((user) =>
+        user.apiKeys.some((apiKey) => timingSafeEqual(Buffer.from(apiKey.hash, "hex"), hash)),
+      ) ?? null
+    );
+  }
+
+  async add(input: { username: string; role: Role; password?: string; workspace?: string }): Promise<User> {
+    const username = parseUsername(input.username);
+    const passwordHash = input.password ? await hashPassword(input.password) : undefined;
+    return this.update((users) => {
+      if (users.some((user) => user.username === username)) {
+        throw new UserStoreError(`User "${username}" already exists`);
+      }
+      const user: User = {
+        username,
+        role: input.role,
+        ...(input.workspace ? { workspace: input.workspace } : {}),
+        ...(passwordHash ? { passwordHash } : {}),
+        apiKeys: [],
+        createdAt: new Date().toISOString(),
+      };
+      return { users: [...users, user], result: user };
+    });
+  }
+
+  setRole(username: string, role: Role): Promise<User> {
+    return this.updateUser(username, (user) => {
+      user.role = role;
+      return user;
+    });
+  }
+
+  /** Assign a workspace; undefined returns the user to the default workspace */
+  setWorkspace(username: string, workspace: string | undefined): Promise<User> {
+    return this.updateUser(username, (user) => {
+      if (workspace) user.workspace = workspace;
+      else delete user.workspace;
+      return user;
+    });
+  }
+
+  async setPassword(username: string, password: string): Promise<User> {
+    const passwordHash = await hashPassword(password);
+    return this.updateUser(username, (user) => {
+      user.passwordHash = passwordHash;
+      return user;
+    });
+  }
+
+  remove(username: string): Promise<boolean> {
+    return this.update((users) => ({
+      users: users.filter((user) => user.username !== username),
+      result: users.some((user) => user.username === username),
+    }));
+  }
+
+  /** Create an API key; the returned key is not stored and cannot be shown again */
+  createApiKey(username: string, name: string): Promise<{ key: string; apiKey: ApiKey }> {
+    const id = randomBytes(4).toString("hex");
+    const key = `${API_KEY_PREFIX}_${id}_${randomBytes(24).toString("base64url")}`;
+    const apiKey: ApiKey = { id, name, hash: hashApiKey(key), createdAt: new Date().toISOString() };
+    return this.updateUser(username, (user) => {
+      user.apiKeys.push(apiKey);
+      return { key, apiKey };
+    });
+  }
+
+  revokeApiKey(username: string, id: string): Promise<boolean> {
+    return this.updateUser(username, (user) => {
+      const before = user.apiKeys.length;
+      user.apiKeys = user.apiKeys.filter((apiKey) => apiKey.id !== id);
+      return user.apiKeys.length < before;
+    });
+  }
+}
+
+let _store: UserStore | null = null;
+
+export function getUserStore(): UserStore {
+  if (!_store) {
+    _store = new UserStore(process.env.AUTH_USERS_PATH || path.join(process.cwd(), "data", "users.json"));
+  }
+  return _store;
+}
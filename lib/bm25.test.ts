@@ -0,0 +1,43 @@
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { Bm25Index, tokenize } from "./bm25";
+
+// Never flushed, so nothing is written
+const newIndex = () => new Bm25Index(path.join(os.tmpdir(), `bm25-test-${process.pid}-${Math.random()}.json`));
+
+describe("tokenize", () => {
+  it("lowercases, drops stopwords and trailing plural s", () => {
+    expect(tokenize("The Offences of Cheating under IPC")).toEqual(["offence", "cheating", "ipc"]);
+    expect(tokenize("Section 420, class")).toEqual(["section", "420", "class"]);
+  });
+});
+
+describe("Bm25Index", () => {
+  it("ranks documents by term frequency and rarity", () => {
+    const index = newIndex();
+    index.add([
+      { id: "theft", text: "theft of movable property is theft" },
+      { id: "cheating", text: "cheating and dishonestly inducing delivery of property" },
+      { id: "dacoity", text: "dacoity by five or more persons" },
+    ]);
+
+    expect(index.search("theft property", 3).map((match) => match.id)).toEqual(["theft", "cheating"]);
+    expect(index.search("dacoity", 3).map((match) => match.id)).toEqual(["dacoity"]);
+    expect(index.search("murder", 3)).toEqual([]);
+  });
+
+  it("applies metadata filters and replaces re-added documents", () => {
+    const index = newIndex();
+    index.add([
+      { id: "a", text: "bail application", metadata: { act: "CrPC" } },
+      { id: "b", text: "bail bond", metadata: { act: "BNSS" } },
+    ]);
+    expect(index.search("bail", 5, { act: { $in: ["BNSS"] } }).map((match) => match.id)).toEqual(["b"]);
+
+    index.add([{ id: "a", text: "summons" }]);
+    index.remove(["b"]);
+    expect(index.search("bail", 5)).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+});
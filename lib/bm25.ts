@@ -0,0 +1,222 @@
+/**
+ * Lexical BM25 index over the same chunks that are embedded, so exact legal
+ * terms ("dacoity", "cognizable", "anticipatory bail") are found even when
+ * dense retrieval ranks them low. Built during ingestion and persisted as
+ * JSON (BM25_INDEX_PATH, default data/bm25.json). Each vector namespace has
+ * its own index next to it, e.g. data/bm25.ws-legal-team.json.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createLogger } from "./logger";
+import { DEFAULT_NAMESPACE, matchesFilter, MetadataFilter, VectorMetadata } from "./vectorstore";
+
+const bm25Logger = createLogger("BM25");
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been by can for from has have he her his i if in into is it its may " +
+    "me my no not of on or our she shall so such that the their them then there these they this " +
+    "to under upon was we were what when where which who whom will with without would you your"
+  ).split(" "),
+);
+
+export type LexicalDocument = {
+  id: string;
+  text: string;
+  metadata?: VectorMetadata;
+};
+
+export type LexicalMatch = {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+};
+
+type IndexedDocument = {
+  length: number;
+  terms: Record<string, number>;
+  metadata?: VectorMetadata;
+};
+
+type PersistedIndex = {
+  version: 1;
+  documents: Record<string, IndexedDocument>;
+};
+
+/**
+ * Lowercase word tokens without stopwords; a trailing plural "s" is dropped
+ * so "offences" matches "offence".
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+export class Bm25Index {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document id -> term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+  private loaded = false;
+  private loadedMtimeMs = 0;
+  private dirty = false;
+
+  constructor(private readonly filePath: string) {}
+
+  private addToPostings(id: string, doc: IndexedDocument) {
+    for (const [term, frequency] of Object.entries(doc.terms)) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+    this.totalLength += doc.length;
+  }
+
+  private removeDocument(id: string) {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    for (const term of Object.keys(existing.terms)) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && !posting.size) this.postings.delete(term);
+    }
+    this.totalLength -= existing.length;
+    this.documents.delete(id);
+  }
+
+  private reset() {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Load from disk on first use, and again when another process (the indexing
+   * CLI) has rewritten the file and this instance has no unsaved changes.
+   */
+  private load() {
+    const mtimeMs = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : 0;
+    if (this.loaded && (this.dirty || mtimeMs === this.loadedMtimeMs)) return;
+
+    this.reset();
+    this.loaded = true;
+    this.loadedMtimeMs = mtimeMs;
+    if (!mtimeMs) return;
+
+    const persisted = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as PersistedIndex;
+    for (const [id, doc] of Object.entries(persisted.documents)) {
+      this.documents.set(id, doc);
+      this.addToPostings(id, doc);
+    }
+    bm25Logger.info(`Loaded lexical index with ${this.documents.size} documents`, { path: this.filePath });
+  }
+
+  get size(): number {
+    this.load();
+    return this.documents.size;
+  }
+
+  add(documents: LexicalDocument[]) {
+    this.load();
+    for (const document of documents) {
+      this.removeDocument(document.id);
+
+      const tokens = tokenize(document.text);
+      const terms: Record<string, number> = {};
+      for (const token of tokens) terms[token] = (terms[token] || 0) + 1;
+
+      const doc: IndexedDocument = { length: tokens.length, terms, metadata: document.metadata };
+      this.documents.set(document.id, doc);
+      this.addToPostings(document.id, doc);
+    }
+    this.dirty = true;
+  }
+
+  /** Metadata stored with an indexed chunk, including its (truncated) text */
+  metadata(id: string): VectorMetadata | undefined {
+    this.load();
+    return this.documents.get(id)?.metadata;
+  }
+
+  remove(ids: string[]) {
+    this.load();
+    for (const id of ids) this.removeDocument(id);
+    this.dirty = true;
+  }
+
+  clear() {
+    this.reset();
+    this.loaded = true;
+    this.dirty = true;
+  }
+
+  search(query: string, topK: number, filter?: MetadataFilter): LexicalMatch[] {
+    this.load();
+    const count = this.documents.size;
+    if (!count || topK <= 0) return [];
+
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        const doc = this.documents.get(id)!;
+        if (filter && !matchesFilter(doc.metadata, filter)) continue;
+        const length = doc.length;
+        const weight = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * weight);
+      }
+    }
+
+    return [...scores]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([id, score]) => ({ id, score, metadata: this.documents.get(id)?.metadata }));
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    const persisted: PersistedIndex = { version: 1, documents: Object.fromEntries(this.documents) };
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(persisted), "utf-8");
+    await fs.promises.rename(temp, this.filePath);
+
+    this.dirty = false;
+    this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+    bm25Logger.info(`Persisted lexical index with ${this.documents.size} documents`, { path: this.filePath });
+  }
+}
+
+const _indexes = new Map<string, Bm25Index>();
+
+function lexicalIndexPath(namespace: string): string {
+  const base = process.env.BM25_INDEX_PATH || path.join(process.cwd(), "data", "bm25.json");
+  if (namespace === DEFAULT_NAMESPACE) return base;
+  const extension = path.extname(base);
+  return `${base.slice(0, base.length - extension.length)}.${namespace}${extension || ".json"}`;
+}
+
+export function getLexicalIndex(namespace: string = DEFAULT_NAMESPACE): Bm25Index {
+  let index = _indexes.get(namespace);
+  if (!index) {
+    index = new Bm25Index(lexicalIndexPath(namespace));
+    _indexes.set(namespace, index);
+  }
+  return index;
+}
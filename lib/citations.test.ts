@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { formatCitation, parseCitations } from "./citations";
+
+const cited = (text: string) => parseCitations(text).map(formatCitation);
+
+describe("parseCitations", () => {
+  it("reads act-first and section-first references", () => {
+    expect(cited("Is BNS 318(4) bailable?")).toEqual(["BNS 318(4)"]);
+    expect(cited("IPC section 302")).toEqual(["IPC 302"]);
+    expect(cited("Section 41A CrPC")).toEqual(["CrPC 41A"]);
+    expect(cited("s. 420 IPC and s.406 IPC")).toEqual(["IPC 420", "IPC 406"]);
+    expect(cited("u/s.41A CrPC")).toEqual(["CrPC 41A"]);
+  });
+
+  it("expands section lists and full act names", () => {
+    expect(cited("sections 302 and 307 of the Indian Penal Code")).toEqual(["IPC 302", "IPC 307"]);
+    expect(cited("ss. 34, 120B & 149 IPC")).toEqual(["IPC 34", "IPC 120B", "IPC 149"]);
+  });
+
+  it("does not pair a section with the next act's name", () => {
+    expect(cited("IPC 302 BNS 103")).toEqual(["IPC 302", "BNS 103"]);
+  });
+
+  it("de-duplicates in order of first appearance", () => {
+    expect(cited("BNS 103 replaces IPC 302; see BNS 103 again")).toEqual(["BNS 103", "IPC 302"]);
+  });
+
+  it("does not read years as section numbers", () => {
+    expect(cited("What changed in the 2023 BNS?")).toEqual([]);
+    expect(cited("Under the 1973 CrPC, arrest rules differ")).toEqual([]);
+    expect(cited("bail in 2024 under the BNS")).toEqual([]);
+    expect(cited("Clause 1.5 IPC")).toEqual([]);
+  });
+
+  it("skips the year of enactment after an act's name", () => {
+    expect(cited("Bharatiya Nyaya Sanhita, 2023 section 103")).toEqual(["BNS 103"]);
+    expect(cited("Indian Penal Code, 1860, s. 302")).toEqual(["IPC 302"]);
+    expect(cited("section 103 of the Bharatiya Nyaya Sanhita, 2023")).toEqual(["BNS 103"]);
+  });
+
+  it("keeps the raw matched text", () => {
+    expect(parseCitations("Section 41A CrPC")[0]).toMatchObject({ act: "CrPC", section: "41A", raw: "Section 41A CrPC" });
+  });
+});
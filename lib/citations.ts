@@ -0,0 +1,97 @@
+/**
+ * Detects act + section references in free text, e.g. "s. 420 IPC",
+ * "Section 41A CrPC", "BNS 318(4)", "sections 302 and 307 of the Indian Penal Code",
+ * "Bharatiya Nyaya Sanhita, 2023 section 103".
+ */
+
+import { ActCode, ACTS } from "./acts";
+
+export type Citation = {
+  act: ActCode;
+  section: string;
+  subsection?: string;
+  raw: string;
+};
+
+// Not the tail of a longer number or decimal, so "the 2023 BNS" is not read as "BNS 023"; "s.420" still matches
+const SECTION_NUMBER = String.raw`(?<!\d\.?)\d{1,3}(?!\d)[A-Z]{0,3}(?:\s*\(\s*[0-9a-z]{1,4}\s*\))*`;
+const SECTION_WORD = String.raw`(?:sections?|secs?\.?|ss?\.|§§?|u\/s\.?)`;
+const LIST_SEPARATOR = String.raw`\s*(?:,|&|\/|and|or)\s*`;
+// The year of enactment that often follows an act's name: "Indian Penal Code, 1860"
+const ACT_YEAR = String.raw`(?:\s*,?\s*(?:18|19|20)\d{2}(?!\d)\s*,?)?`;
+const ACT_JOIN = String.raw`\s*(?:,\s*)?(?:of\s+(?:the\s+)?|under\s+(?:the\s+)?)?`;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeAlias(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").replace(/\.$/, "");
+}
+
+const ALIAS_TO_CODE = new Map<string, ActCode>();
+for (const act of Object.values(ACTS)) {
+  for (const alias of [act.code, ...act.aliases]) {
+    ALIAS_TO_CODE.set(normalizeAlias(alias), act.code);
+  }
+}
+// Longest aliases first so "code of criminal procedure" wins over shorter overlaps
+const ACT_PATTERN = [...ALIAS_TO_CODE.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map((alias) => `${escapeRegExp(alias).replace(/ /g, "\\s+")}\\.?`)
+  .join("|");
+const ACT = String.raw`(?<![A-Za-z])(${ACT_PATTERN})(?![A-Za-z])`;
+const NUMBER_LIST = `(${SECTION_NUMBER}(?:${LIST_SEPARATOR}${SECTION_NUMBER})*)`;
+
+// "BNS 318(4)", "IPC section 302", "Bharatiya Nyaya Sanhita, 2023 section 103"
+const ACT_THEN_SECTION = new RegExp(`${ACT}${ACT_YEAR}\\s*(?:,\\s*)?(?:${SECTION_WORD}\\s*)?${NUMBER_LIST}`, "gi");
+// "Section 41A CrPC", "ss. 302 and 307 of the IPC", "302 IPC"
+const SECTION_THEN_ACT = new RegExp(`(?:${SECTION_WORD}\\s*)?${NUMBER_LIST}${ACT_JOIN}${ACT}`, "gi");
+
+function splitSection(token: string): { section: string; subsection?: string } {
+  const compact = token.replace(/\s+/g, "");
+  const match = compact.match(/^(\d+[A-Za-z]*)((?:\([0-9a-zA-Z]+\))*)$/);
+  if (!match) return { section: compact.toUpperCase() };
+  return { section: match[1].toUpperCase(), subsection: match[2] || undefined };
+}
+
+/**
+ * Extract every act + section reference from `text`, de-duplicated and in
+ * order of first appearance.
+ */
+export function parseCitations(text: string): Citation[] {
+  const found: { index: number; citation: Citation }[] = [];
+  const seen = new Set<string>();
+  // Spans already claimed by "ACT number" matches, so "IPC 302 BNS 103" does not also yield "302 BNS"
+  const claimed: [number, number][] = [];
+
+  const collect = (regex: RegExp, numbersGroup: number, actGroup: number, claim: boolean) => {
+    for (const match of text.matchAll(regex)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start >= from && start < to)) continue;
+
+      const act = ALIAS_TO_CODE.get(normalizeAlias(match[actGroup]));
+      if (!act) continue;
+      if (claim) claimed.push([start, end]);
+
+      const numbers = match[numbersGroup].split(new RegExp(LIST_SEPARATOR, "i")).filter(Boolean);
+      for (const number of numbers) {
+        const { section, subsection } = splitSection(number);
+        const key = `${act}:${section}${subsection || ""}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        found.push({ index: start, citation: { act, section, subsection, raw: match[0].trim() } });
+      }
+    }
+  };
+
+  collect(ACT_THEN_SECTION, 2, 1, true);
+  collect(SECTION_THEN_ACT, 1, 2, false);
+
+  return found.sort((a, b) => a.index - b.index).map(({ citation }) => citation);
+}
+
+export function formatCitation(citation: Pick<Citation, "act" | "section" | "subsection">): string {
+  return `${citation.act} ${citation.section}${citation.subsection || ""}`;
+}
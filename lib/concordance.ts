@@ -0,0 +1,135 @@
+/**
+ * Section concordance between the old and new criminal codes
+ * (IPC <-> BNS, CrPC <-> BNSS, IEA <-> BSA)
+ *
+ * The table is loaded from a local CSV or JSON file (dataset/concordance.csv by
+ * default, overridable with CONCORDANCE_PATH) with the columns
+ * old_act, old_section, new_act, new_section, subject.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parse } from "csv-parse/sync";
+import { ActCode, ACTS, baseSection, resolveAct } from "./acts";
+import { createLogger } from "./logger";
+
+const concordanceLogger = createLogger("Concordance");
+
+export type ConcordanceEntry = {
+  oldAct: ActCode;
+  oldSection: string;
+  newAct: ActCode;
+  newSection: string;
+  subject: string;
+};
+
+export type CorrespondingSection = {
+  act: ActCode;
+  actName: string;
+  section: string;
+  inForce: boolean;
+  subject: string;
+};
+
+export const DEFAULT_CONCORDANCE_PATH = path.join(process.cwd(), "dataset", "concordance.csv");
+
+let _entries: ConcordanceEntry[] | null = null;
+
+type RawEntry = Record<string, unknown>;
+
+function readField(row: RawEntry, snake: string, camel: string): string {
+  const value = row[snake] ?? row[camel];
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+function toEntry(row: RawEntry, line: number): ConcordanceEntry | null {
+  const oldAct = resolveAct(readField(row, "old_act", "oldAct"));
+  const newAct = resolveAct(readField(row, "new_act", "newAct"));
+  const oldSection = readField(row, "old_section", "oldSection");
+  const newSection = readField(row, "new_section", "newSection");
+
+  if (!oldAct || !newAct || !oldSection || !newSection) {
+    concordanceLogger.warn(`Skipping invalid concordance entry on row ${line}`, { row });
+    return null;
+  }
+
+  return {
+    oldAct: oldAct.code,
+    oldSection,
+    newAct: newAct.code,
+    newSection,
+    subject: readField(row, "subject", "subject"),
+  };
+}
+
+/**
+ * Load (and cache) the concordance table. Returns an empty table when the file
+ * does not exist so the rest of the pipeline keeps working without it.
+ */
+export function loadConcordance(filePath: string = process.env.CONCORDANCE_PATH || DEFAULT_CONCORDANCE_PATH): ConcordanceEntry[] {
+  if (_entries) return _entries;
+
+  if (!fs.existsSync(filePath)) {
+    concordanceLogger.warn(`Concordance file not found: ${filePath}`);
+    _entries = [];
+    return _entries;
+  }
+
+  const content = fs.readFileSync(filePath, "utf-8");
+  const rows: RawEntry[] = filePath.endsWith(".json")
+    ? JSON.parse(content)
+    : parse(content, { columns: true, skip_empty_lines: true, trim: true });
+
+  _entries = rows
+    .map((row, index) => toEntry(row, index + 1))
+    .filter((entry): entry is ConcordanceEntry => entry !== null);
+
+  concordanceLogger.info(`Loaded ${_entries.length} concordance entries`, { filePath });
+  return _entries;
+}
+
+function sectionMatches(entrySection: string, requested: string): "exact" | "base" | null {
+  if (entrySection.toUpperCase() === requested.toUpperCase()) return "exact";
+  if (baseSection(entrySection) === baseSection(requested)) return "base";
+  return null;
+}
+
+/**
+ * Find the sections in the other code that correspond to `act` + `section`.
+ * "BNS 318(4)" matches only the 318(4) row; "BNS 318" matches every 318(n) row.
+ */
+export function findCorrespondingSections(act: string, section: string): CorrespondingSection[] {
+  const info = resolveAct(act);
+  if (!info || !section.trim()) return [];
+
+  const requested = section.trim();
+  const exact: CorrespondingSection[] = [];
+  const partial: CorrespondingSection[] = [];
+
+  for (const entry of loadConcordance()) {
+    let match: "exact" | "base" | null = null;
+    let target: { act: ActCode; section: string } | null = null;
+
+    if (entry.oldAct === info.code) {
+      match = sectionMatches(entry.oldSection, requested);
+      target = { act: entry.newAct, section: entry.newSection };
+    } else if (entry.newAct === info.code) {
+      match = sectionMatches(entry.newSection, requested);
+      target = { act: entry.oldAct, section: entry.oldSection };
+    }
+
+    if (!match || !target) continue;
+
+    const corresponding: CorrespondingSection = {
+      act: target.act,
+      actName: ACTS[target.act].name,
+      section: target.section,
+      inForce: ACTS[target.act].inForce,
+      subject: entry.subject,
+    };
+    (match === "exact" ? exact : partial).push(corresponding);
+  }
+
+  // A sub-section request with no exact row falls back to the whole section
+  return exact.length ? exact : partial;
+}
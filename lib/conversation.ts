@@ -0,0 +1,89 @@
+/**
+ * Conversation history helpers for multi-turn chat: validation of the turns a
+ * client sends, a rough token estimate, and trimming to a token budget.
+ */
+
+export type ChatTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// Most recent turns considered at all, before token budgeting
+export const MAX_HISTORY_TURNS = 8;
+// Token budget for prior turns sent to the model alongside the retrieved context
+export const HISTORY_TOKEN_BUDGET = 1500;
+// Upper bound on turns accepted from a client request
+export const MAX_REQUEST_TURNS = 50;
+
+/**
+ * Cheap token estimate (~4 characters per token for English text), good
+ * enough for budgeting without pulling in a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Validate untrusted history from a request body, dropping malformed entries
+ * and keeping only the most recent MAX_REQUEST_TURNS.
+ */
+export function sanitizeHistory(value: unknown): ChatTurn[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(
+      (turn): turn is ChatTurn =>
+        Boolean(turn) &&
+        (turn.role === "user" || turn.role === "assistant") &&
+        typeof turn.content === "string" &&
+        turn.content.trim().length > 0,
+    )
+    .map((turn) => ({ role: turn.role, content: turn.content.trim() }))
+    .slice(-MAX_REQUEST_TURNS);
+}
+
+/**
+ * Keep the newest turns that fit in `tokenBudget`. A turn that does not fit
+ * whole is cut from the front (keeping its ending) only if it is the newest;
+ * older turns are dropped entirely. Always starts on a user turn.
+ */
+export function trimHistory(
+  history: ChatTurn[],
+  tokenBudget: number = HISTORY_TOKEN_BUDGET,
+  maxTurns: number = MAX_HISTORY_TURNS,
+): ChatTurn[] {
+  const recent = history.slice(-maxTurns);
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let i = recent.length - 1; i >= 0; i--) {
+    const turn = recent[i];
+    const tokens = estimateTokens(turn.content);
+
+    if (used + tokens <= tokenBudget) {
+      kept.unshift(turn);
+      used += tokens;
+      continue;
+    }
+
+    if (!kept.length) {
+      const remainingChars = Math.max(0, (tokenBudget - used) * 4);
+      if (remainingChars > 0) {
+        kept.unshift({ role: turn.role, content: `…${turn.content.slice(-remainingChars)}` });
+      }
+    }
+    break;
+  }
+
+  while (kept.length && kept[0].role !== "user") {
+    kept.shift();
+  }
+
+  return kept;
+}
+
+export function formatTranscript(history: ChatTurn[]): string {
+  return history
+    .map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`)
+    .join("\n");
+}
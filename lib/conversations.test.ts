@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { ConversationScope, MemoryConversationStore } from "./conversations";
+
+const alice: ConversationScope = { workspace: "default", owner: "alice", admin: false };
+const bob: ConversationScope = { workspace: "default", owner: "bob", admin: false };
+const admin: ConversationScope = { workspace: "default", owner: "root", admin: true };
+
+describe("MemoryConversationStore", () => {
+  it("lists, reads and continues only the caller's threads in their workspace", async () => {
+    const store = new MemoryConversationStore();
+    const own = await store.create({ title: "Bail", workspace: "default", owner: "alice" });
+    await store.create({ title: "Theft", workspace: "default", owner: "bob" });
+    await store.create({ title: "Contracts", workspace: "legal-team", owner: "alice" });
+
+    expect((await store.list(alice)).map((conversation) => conversation.title)).toEqual(["Bail"]);
+    expect(await store.get(own.id, bob)).toBeNull();
+    expect(await store.get(own.id, { ...alice, workspace: "legal-team" })).toBeNull();
+    expect(await store.append(own.id, bob, [{ role: "user", content: "Is it mine now?" }])).toBeNull();
+    expect((await store.get(own.id, alice))?.messages).toEqual([]);
+    expect(await store.getByShareId(own.shareId)).toMatchObject({ id: own.id });
+  });
+
+  it("lets only the owner or an admin delete a thread", async () => {
+    const store = new MemoryConversationStore();
+    const first = await store.create({ workspace: "default", owner: "alice" });
+    const second = await store.create({ workspace: "default", owner: "alice" });
+
+    expect(await store.delete(first.id, bob)).toBe(false);
+    expect(await store.delete(first.id, alice)).toBe(true);
+    expect((await store.list(admin)).map((conversation) => conversation.id)).toEqual([second.id]);
+    expect(await store.delete(second.id, admin)).toBe(true);
+  });
+
+  it("keeps threads without an owner to admins", async () => {
+    const store = new MemoryConversationStore();
+    const anonymous = await store.create({ workspace: "default", owner: null });
+
+    expect(await store.get(anonymous.id, { ...alice, owner: null })).toBeNull();
+    expect(await store.get(anonymous.id, admin)).not.toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Server-side conversation persistence
+ *
+ * Conversations are stored behind the ConversationStore interface. The default
+ * backend writes one JSON file per conversation under data/conversations
+ * (override with CONVERSATIONS_DIR); CONVERSATION_STORE=memory keeps them in
+ * process memory instead, which is useful for tests and throwaway deployments.
+ *
+ * Every conversation belongs to the user who started it and the workspace it
+ * was started in. Reads and writes take a ConversationScope, resolved from the
+ * request by the route, so callers only see their own threads; admins see
+ * every thread in their workspace.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes, randomUUID } from "crypto";
+import type { SourceSnippet } from "./rag";
+import type { GroundingReport } from "./grounding";
+import { createLogger } from "./logger";
+import { DEFAULT_WORKSPACE } from "./workspaces";
+
+const storeLogger = createLogger("Conversations");
+
+export type StoredMessage = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  sources?: SourceSnippet[];
+  grounding?: GroundingReport;
+  createdAt: string;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  shareId: string;
+  // Absent on conversations saved before workspaces, which belong to the default one
+  workspace?: string;
+  // Principal id of whoever started it; null or absent when nobody was signed in, so only admins see it
+  owner?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+};
+
+export type ConversationSummary = Omit<Conversation, "messages"> & {
+  messageCount: number;
+};
+
+export type NewMessage = Omit<StoredMessage, "id" | "createdAt">;
+
+/** Whose conversations a request may list, read, continue and delete */
+export type ConversationScope = {
+  workspace: string;
+  owner: string | null;
+  // Admins reach every conversation in the workspace, whoever started it
+  admin: boolean;
+};
+
+export type NewConversation = {
+  title?: string;
+  messages?: NewMessage[];
+  workspace: string;
+  owner: string | null;
+};
+
+/**
+ * Conversations outside the scope are treated as missing: get and append
+ * return null and delete returns false. Share links are public and unscoped.
+ */
+export interface ConversationStore {
+  list(scope: ConversationScope): Promise<ConversationSummary[]>;
+  get(id: string, scope: ConversationScope): Promise<Conversation | null>;
+  getByShareId(shareId: string): Promise<Conversation | null>;
+  create(input: NewConversation): Promise<Conversation>;
+  append(id: string, scope: ConversationScope, messages: NewMessage[]): Promise<Conversation | null>;
+  delete(id: string, scope: ConversationScope): Promise<boolean>;
+}
+
+export function inScope(conversation: Omit<Conversation, "messages">, scope: ConversationScope): boolean {
+  if ((conversation.workspace ?? DEFAULT_WORKSPACE) !== scope.workspace) return false;
+  return scope.admin || (scope.owner !== null && conversation.owner === scope.owner);
+}
+
+const TITLE_MAX_LENGTH = 80;
+
+function deriveTitle(title: string | undefined, messages: NewMessage[]): string {
+  const source = title?.trim() || messages.find((m) => m.role === "user")?.content.trim() || "New conversation";
+  return source.length > TITLE_MAX_LENGTH ? `${source.slice(0, TITLE_MAX_LENGTH - 1)}…` : source;
+}
+
+function toStoredMessages(messages: NewMessage[]): StoredMessage[] {
+  const now = new Date().toISOString();
+  return messages.map((message) => ({
+    id: randomUUID(),
+    role: message.role,
+    content: message.content,
+    sources: message.sources,
+    grounding: message.grounding,
+    createdAt: now,
+  }));
+}
+
+function newConversation(input: NewConversation): Conversation {
+  const now = new Date().toISOString();
+  const messages = input.messages || [];
+  return {
+    id: randomUUID(),
+    title: deriveTitle(input.title, messages),
+    shareId: randomBytes(12).toString("base64url"),
+    workspace: input.workspace,
+    owner: input.owner,
+    createdAt: now,
+    updatedAt: now,
+    messages: toStoredMessages(messages),
+  };
+}
+
+function summarize(conversation: Conversation): ConversationSummary {
+  const { messages, ...rest } = conversation;
+  return { ...rest, messageCount: messages.length };
+}
+
+function byMostRecent(a: { updatedAt: string }, b: { updatedAt: string }): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+export class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, Conversation>();
+
+  async list(scope: ConversationScope) {
+    return [...this.conversations.values()]
+      .filter((conversation) => inScope(conversation, scope))
+      .map(summarize)
+      .sort(byMostRecent);
+  }
+
+  async get(id: string, scope: ConversationScope) {
+    const conversation = this.conversations.get(id);
+    return conversation && inScope(conversation, scope) ? conversation : null;
+  }
+
+  async getByShareId(shareId: string) {
+    return [...this.conversations.values()].find((c) => c.shareId === shareId) ?? null;
+  }
+
+  async create(input: NewConversation) {
+    const conversation = newConversation(input);
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async append(id: string, scope: ConversationScope, messages: NewMessage[]) {
+    const conversation = await this.get(id, scope);
+    if (!conversation) return null;
+    conversation.messages.push(...toStoredMessages(messages));
+    conversation.updatedAt = new Date().toISOString();
+    return conversation;
+  }
+
+  async delete(id: string, scope: ConversationScope) {
+    return (await this.get(id, scope)) !== null && this.conversations.delete(id);
+  }
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export class FileConversationStore implements ConversationStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string): string | null {
+    // Ids come from URLs, so refuse anything that could escape the directory
+    return ID_PATTERN.test(id) ? path.join(this.directory, `${id}.json`) : null;
+  }
+
+  private async readAll(): Promise<Conversation[]> {
+    if (!fs.existsSync(this.directory)) return [];
+
+    const files = (await fs.promises.readdir(this.directory)).filter((file) => file.endsWith(".json"));
+    const conversations: Conversation[] = [];
+
+    for (const file of files) {
+      try {
+        conversations.push(JSON.parse(await fs.promises.readFile(path.join(this.directory, file), "utf-8")));
+      } catch (error) {
+        storeLogger.warn(`Skipping unreadable conversation file: ${file}`, { error: String(error) });
+      }
+    }
+
+    return conversations;
+  }
+
+  private async write(conversation: Conversation): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(conversation.id)!;
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(conversation, null, 2), "utf-8");
+    await fs.promises.rename(temp, target);
+  }
+
+  async list(scope: ConversationScope) {
+    return (await this.readAll())
+      .filter((conversation) => inScope(conversation, scope))
+      .map(summarize)
+      .sort(byMostRecent);
+  }
+
+  async get(id: string, scope: ConversationScope) {
+    const file = this.filePath(id);
+    if (!file || !fs.existsSync(file)) return null;
+    const conversation = JSON.parse(await fs.promises.readFile(file, "utf-8")) as Conversation;
+    return inScope(conversation, scope) ? conversation : null;
+  }
+
+  async getByShareId(shareId: string) {
+    return (await this.readAll()).find((c) => c.shareId === shareId) ?? null;
+  }
+
+  async create(input: NewConversation) {
+    const conversation = newConversation(input);
+    await this.write(conversation);
+    return conversation;
+  }
+
+  async append(id: string, scope: ConversationScope, messages: NewMessage[]) {
+    const conversation = await this.get(id, scope);
+    if (!conversation) return null;
+    conversation.messages.push(...toStoredMessages(messages));
+    conversation.updatedAt = new Date().toISOString();
+    await this.write(conversation);
+    return conversation;
+  }
+
+  async delete(id: string, scope: ConversationScope) {
+    if (!(await this.get(id, scope))) return false;
+    await fs.promises.unlink(this.filePath(id)!);
+    return true;
+  }
+}
+
+let _store: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (!_store) {
+    if (process.env.CONVERSATION_STORE === "memory") {
+      _store = new MemoryConversationStore();
+    } else {
+      const directory = process.env.CONVERSATIONS_DIR || path.join(process.cwd(), "data", "conversations");
+      _store = new FileConversationStore(directory);
+    }
+    storeLogger.info("Conversation store initialized", {
+      backend: process.env.CONVERSATION_STORE === "memory" ? "memory" : "file"
+    });
+  }
+  return _store;
+}
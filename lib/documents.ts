@@ -0,0 +1,137 @@
+/**
+ * Registry of uploaded documents: one record per distinct file content, keyed
+ * by the SHA-256 of its bytes, listing the chunk ids indexed from it. Used to
+ * detect re-uploads of the same file and to delete exactly one file's vectors.
+ * Records are kept per vector namespace, so workspaces do not see each
+ * other's files. They live in one JSON file (DOCUMENTS_PATH, default
+ * data/documents.json).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import type { DocumentType } from "./ingest";
+import { DEFAULT_NAMESPACE } from "./vectorstore";
+
+export type DocumentRecord = {
+  // Leading characters of the hash; also the prefix of the document's chunk ids
+  id: string;
+  hash: string;
+  fileName: string;
+  documentType: DocumentType;
+  size: number;
+  chunkIds: string[];
+  // Who uploaded the file; absent for anonymous uploads
+  uploader?: string;
+  // Vector namespace holding the chunks; absent for files uploaded before workspaces
+  namespace?: string;
+  uploadedAt: string;
+};
+
+// Listing entry returned by GET /api/documents
+export type DocumentSummary = Omit<DocumentRecord, "chunkIds"> & { chunkCount: number };
+
+const ID_LENGTH = 16;
+
+export function contentHash(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export function documentId(hash: string): string {
+  return hash.slice(0, ID_LENGTH);
+}
+
+function inNamespace(record: DocumentRecord, namespace: string): boolean {
+  return (record.namespace ?? DEFAULT_NAMESPACE) === namespace;
+}
+
+export class DocumentRegistry {
+  // Read-modify-write updates run one after another
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async readAll(): Promise<DocumentRecord[]> {
+    if (!fs.existsSync(this.filePath)) return [];
+    return JSON.parse(await fs.promises.readFile(this.filePath, "utf-8")) as DocumentRecord[];
+  }
+
+  private async writeAll(records: DocumentRecord[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(records, null, 2), "utf-8");
+    await fs.promises.rename(temp, this.filePath);
+  }
+
+  private update<T>(change: (records: DocumentRecord[]) => { records: DocumentRecord[]; result: T }): Promise<T> {
+    const run = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const { records, result } = change(await this.readAll());
+        await this.writeAll(records);
+        return result;
+      });
+    this.writing = run;
+    return run;
+  }
+
+  /** Most recent first */
+  async list(namespace: string): Promise<DocumentRecord[]> {
+    await this.writing.catch(() => undefined);
+    return (await this.readAll())
+      .filter((record) => inNamespace(record, namespace))
+      .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  }
+
+  async get(id: string, namespace: string): Promise<DocumentRecord | null> {
+    return (await this.list(namespace)).find((record) => record.id === id) ?? null;
+  }
+
+  async findByHash(hash: string, namespace: string): Promise<DocumentRecord | null> {
+    return (await this.list(namespace)).find((record) => record.hash === hash) ?? null;
+  }
+
+  /** Number of records per namespace */
+  async counts(): Promise<Record<string, number>> {
+    await this.writing.catch(() => undefined);
+    const counts: Record<string, number> = {};
+    for (const record of await this.readAll()) {
+      const namespace = record.namespace ?? DEFAULT_NAMESPACE;
+      counts[namespace] = (counts[namespace] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  /** Add a record, replacing any earlier record for the same content in its namespace */
+  save(record: DocumentRecord): Promise<DocumentRecord> {
+    const namespace = record.namespace ?? DEFAULT_NAMESPACE;
+    return this.update((records) => ({
+      records: [...records.filter((existing) => existing.id !== record.id || !inNamespace(existing, namespace)), record],
+      result: record,
+    }));
+  }
+
+  clear(namespace: string): Promise<void> {
+    return this.update((records) => ({
+      records: records.filter((record) => !inNamespace(record, namespace)),
+      result: undefined,
+    }));
+  }
+
+  delete(id: string, namespace: string): Promise<DocumentRecord | null> {
+    const matches = (record: DocumentRecord) => record.id === id && inNamespace(record, namespace);
+    return this.update((records) => ({
+      records: records.filter((record) => !matches(record)),
+      result: records.find(matches) ?? null,
+    }));
+  }
+}
+
+let _registry: DocumentRegistry | null = null;
+
+export function getDocumentRegistry(): DocumentRegistry {
+  if (!_registry) {
+    _registry = new DocumentRegistry(process.env.DOCUMENTS_PATH || path.join(process.cwd(), "data", "documents.json"));
+  }
+  return _registry;
+}
@@ -2,9 +2,24 @@
  * Environment configuration and validation
  */
 
+import * as path from 'path';
+
+export type VectorStoreProvider = 'pinecone' | 'local';
+export type LLMProvider = 'openai' | 'openai-compatible' | 'fake';
+
+export type RerankProvider = 'lexical' | 'llm' | 'none';
+
+const LLM_PROVIDERS: LLMProvider[] = ['openai', 'openai-compatible', 'fake'];
+const RERANK_PROVIDERS: RerankProvider[] = ['lexical', 'llm', 'none'];
+
 type EnvironmentConfig = {
-  openai: {
+  llm: {
+    provider: LLMProvider;
+    // Defaults to the chat provider; set separately to e.g. chat via Ollama, embed via OpenAI
+    embeddingProvider: LLMProvider;
     apiKey: string;
+    // Base URL of an OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...)
+    baseURL?: string;
     model: string;
     embeddingModel: string;
   };
@@ -13,6 +28,36 @@ type EnvironmentConfig = {
     index: string;
     environment?: string;
   };
+  vectorStore: {
+    provider: VectorStoreProvider;
+    localPath: string;
+  };
+  rerank: {
+    provider: RerankProvider;
+    // Candidates fetched for the LLM reranker before the top results are kept
+    candidates: number;
+    // LLM relevance in [0, 1] below which a candidate is dropped; the lexical reranker never drops any
+    minScore: number;
+  };
+  indexing: {
+    // Embedding + upsert batches in flight at once
+    concurrency: number;
+    // Attempts per batch before its chunks go to the dead-letter list
+    maxAttempts: number;
+    // Estimated embedding tokens sent per minute; 0 disables the budget
+    embeddingTokensPerMinute: number;
+  };
+  upload: {
+    maxFileBytes: number;
+    maxRequestBytes: number;
+    maxFiles: number;
+  };
+  chunking: {
+    // Estimated tokens per chunk, including the section heading
+    maxTokens: number;
+    // Tokens repeated from the end of one chunk at the start of the next
+    overlapTokens: number;
+  };
   app: {
     nodeEnv: string;
     isDevelopment: boolean;
@@ -34,28 +79,113 @@ function validateEnvVar(name: string, value: string | undefined, required: boole
   return value || '';
 }
 
-function getConfig(): EnvironmentConfig {
-  // Validate critical environment variables
-  const openaiApiKey = validateEnvVar('OPENAI_API_KEY', process.env.OPENAI_API_KEY);
-  const pineconeApiKey = validateEnvVar('PINECONE_API_KEY', process.env.PINECONE_API_KEY);
-  const pineconeIndex = validateEnvVar('PINECONE_INDEX', process.env.PINECONE_INDEX);
-
-  // Warn about exposed API keys
-  if (openaiApiKey.startsWith('sk-') && openaiApiKey.length > 20) {
-    console.warn('[SECURITY WARNING] OpenAI API key appears to be hardcoded. Please use environment variables.');
+function getVectorStoreProvider(): VectorStoreProvider {
+  const provider = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+  if (provider !== 'pinecone' && provider !== 'local') {
+    throw new ConfigurationError(`Unsupported VECTOR_STORE '${provider}' (expected "pinecone" or "local")`);
   }
+  return provider;
+}
+
+function getLLMProvider(name: string, fallback: LLMProvider): LLMProvider {
+  const provider = (process.env[name] || fallback).toLowerCase() as LLMProvider;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new ConfigurationError(`Unsupported ${name} '${provider}' (expected one of: ${LLM_PROVIDERS.join(', ')})`);
+  }
+  return provider;
+}
+
+function getRerankProvider(): RerankProvider {
+  const provider = (process.env.RERANKER || 'lexical').toLowerCase() as RerankProvider;
+  if (!RERANK_PROVIDERS.includes(provider)) {
+    throw new ConfigurationError(`Unsupported RERANKER '${provider}' (expected one of: ${RERANK_PROVIDERS.join(', ')})`);
+  }
+  return provider;
+}
+
+function parseNumber(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new ConfigurationError(`${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/** Chunk sizes, read on their own so a dry-run index needs no API keys */
+export function getChunkingConfig(): EnvironmentConfig['chunking'] {
+  const maxTokens = Math.round(parseNumber('CHUNK_MAX_TOKENS', 300, 50, 4000));
+  const overlapTokens = Math.round(parseNumber('CHUNK_OVERLAP_TOKENS', 40, 0, 1000));
+  if (overlapTokens * 2 > maxTokens) {
+    throw new ConfigurationError('CHUNK_OVERLAP_TOKENS must be at most half of CHUNK_MAX_TOKENS');
+  }
+  return { maxTokens, overlapTokens };
+}
+
+/** Embedding provider and model, likewise readable without the API keys */
+export function getEmbeddingModelConfig(): Pick<EnvironmentConfig['llm'], 'embeddingProvider' | 'embeddingModel'> {
+  return {
+    embeddingProvider: getLLMProvider('EMBEDDING_PROVIDER', getLLMProvider('LLM_PROVIDER', 'openai')),
+    embeddingModel: process.env.EMBEDDING_MODEL || process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+  };
+}
+
+function getConfig(): EnvironmentConfig {
+  const vectorStoreProvider = getVectorStoreProvider();
+  const usePinecone = vectorStoreProvider === 'pinecone';
+  const llmProvider = getLLMProvider('LLM_PROVIDER', 'openai');
+  const { embeddingProvider, embeddingModel } = getEmbeddingModelConfig();
+  const llmProviders = [llmProvider, embeddingProvider];
+
+  // Validate critical environment variables; each is only needed by the providers that use it
+  const llmApiKey = validateEnvVar(
+    'OPENAI_API_KEY',
+    process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    llmProviders.includes('openai'),
+  );
+  const llmBaseURL = validateEnvVar(
+    'LLM_BASE_URL',
+    process.env.LLM_BASE_URL,
+    llmProviders.includes('openai-compatible'),
+  );
+  const pineconeApiKey = validateEnvVar('PINECONE_API_KEY', process.env.PINECONE_API_KEY, usePinecone);
+  const pineconeIndex = validateEnvVar('PINECONE_INDEX', process.env.PINECONE_INDEX, usePinecone);
 
   return {
-    openai: {
-      apiKey: openaiApiKey,
-      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+    llm: {
+      provider: llmProvider,
+      embeddingProvider,
+      apiKey: llmApiKey,
+      baseURL: llmBaseURL || undefined,
+      model: process.env.LLM_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      embeddingModel,
     },
     pinecone: {
       apiKey: pineconeApiKey,
       index: pineconeIndex,
       environment: process.env.PINECONE_ENVIRONMENT,
     },
+    vectorStore: {
+      provider: vectorStoreProvider,
+      localPath: process.env.LOCAL_VECTOR_STORE_PATH || path.join(process.cwd(), 'data', 'vectors.json'),
+    },
+    rerank: {
+      provider: getRerankProvider(),
+      candidates: Math.round(parseNumber('RERANK_CANDIDATES', 40, 1, 200)),
+      minScore: parseNumber('RERANK_MIN_SCORE', 0.3, 0, 1),
+    },
+    indexing: {
+      concurrency: Math.round(parseNumber('INDEX_CONCURRENCY', 2, 1, 16)),
+      maxAttempts: Math.round(parseNumber('INDEX_MAX_ATTEMPTS', 5, 1, 10)),
+      embeddingTokensPerMinute: Math.round(parseNumber('EMBEDDING_TOKENS_PER_MINUTE', 0, 0, 100_000_000)),
+    },
+    upload: {
+      maxFileBytes: parseNumber('UPLOAD_MAX_FILE_MB', 20, 1, 1024) * 1024 * 1024,
+      maxRequestBytes: parseNumber('UPLOAD_MAX_REQUEST_MB', 50, 1, 4096) * 1024 * 1024,
+      maxFiles: Math.round(parseNumber('UPLOAD_MAX_FILES', 20, 1, 500)),
+    },
+    chunking: getChunkingConfig(),
     app: {
       nodeEnv: process.env.NODE_ENV || 'development',
       isDevelopment: process.env.NODE_ENV === 'development',
@@ -80,26 +210,31 @@ export function validateEnvironment(): { valid: boolean; errors: string[] } {
   try {
     const config = getEnvConfig();
     
-    // Validate OpenAI configuration
-    if (!config.openai.apiKey) {
+    // Validate LLM provider configuration
+    const llmProviders = [config.llm.provider, config.llm.embeddingProvider];
+    if (llmProviders.includes('openai') && !config.llm.apiKey) {
       errors.push('OPENAI_API_KEY is not configured');
-    } else if (!config.openai.apiKey.startsWith('sk-')) {
-      errors.push('OPENAI_API_KEY appears to be invalid (should start with "sk-")');
     }
 
-    // Validate Pinecone configuration
-    if (!config.pinecone.apiKey) {
-      errors.push('PINECONE_API_KEY is not configured');
+    if (llmProviders.includes('openai-compatible') && !config.llm.baseURL) {
+      errors.push('LLM_BASE_URL is not configured');
     }
-    
-    if (!config.pinecone.index) {
-      errors.push('PINECONE_INDEX is not configured');
+
+    // Validate Pinecone configuration
+    if (config.vectorStore.provider === 'pinecone') {
+      if (!config.pinecone.apiKey) {
+        errors.push('PINECONE_API_KEY is not configured');
+      }
+
+      if (!config.pinecone.index) {
+        errors.push('PINECONE_INDEX is not configured');
+      }
     }
 
     // Additional model validation
-    const validModels = ['gpt-4o-mini', 'gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'];
-    if (!validModels.includes(config.openai.model)) {
-      console.warn(`[Config] Using non-standard OpenAI model: ${config.openai.model}`);
+    const validModels = ['gpt-4o-mini', 'gpt-4o', 'gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+    if (config.llm.provider === 'openai' && !validModels.includes(config.llm.model)) {
+      console.warn(`[Config] Using non-standard OpenAI model: ${config.llm.model}`);
     }
 
   } catch (error) {
@@ -0,0 +1,272 @@
+/**
+ * Offline evaluation of the RAG pipeline against a versioned golden set:
+ * retrieval metrics (recall@k, MRR) from the ranked sources, and answer
+ * metrics (citation accuracy, faithfulness, overlap with a reference answer).
+ */
+
+import * as fs from "fs";
+import { baseSection, resolveAct } from "./acts";
+import { tokenize } from "./bm25";
+import { parseCitations } from "./citations";
+import type { ChatResult } from "./rag";
+
+export type ExpectedSection = {
+  act: string;
+  section: string;
+};
+
+export type GoldenQuestion = {
+  id: string;
+  question: string;
+  expected: ExpectedSection[];
+  referenceAnswer?: string;
+  tags?: string[];
+};
+
+export type GoldenSet = {
+  name: string;
+  version: number;
+  description?: string;
+  questions: GoldenQuestion[];
+};
+
+export const RECALL_K_VALUES = [1, 3, 5, 10];
+
+export type QuestionEvaluation = {
+  id: string;
+  question: string;
+  tags?: string[];
+  expected: string[];
+  retrieved: string[];
+  recallAtK: Record<number, number>;
+  reciprocalRank: number;
+  // Share of sections cited in the answer that are expected; null when none are cited
+  citationAccuracy: number | null;
+  cited: string[];
+  // Share of checked claims the grounding verifier found supported; null when none were checked
+  faithfulness: number | null;
+  notInContext: string[];
+  // Token F1 against the reference answer
+  referenceOverlap: number | null;
+  latencyMs: number;
+  error?: string;
+};
+
+export type EvaluationSummary = {
+  questions: number;
+  failed: number;
+  recallAtK: Record<number, number>;
+  mrr: number;
+  citationAccuracy: number | null;
+  faithfulness: number | null;
+  referenceOverlap: number | null;
+  notInContextSections: number;
+  averageLatencyMs: number;
+};
+
+export type EvaluationReport = {
+  goldenSet: { name: string; version: number; path: string };
+  generatedAt: string;
+  config: Record<string, string | number>;
+  summary: EvaluationSummary;
+  results: QuestionEvaluation[];
+};
+
+export class GoldenSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GoldenSetError";
+  }
+}
+
+export function loadGoldenSet(filePath: string): GoldenSet {
+  if (!fs.existsSync(filePath)) {
+    throw new GoldenSetError(`Golden set not found: ${filePath}`);
+  }
+
+  const set = JSON.parse(fs.readFileSync(filePath, "utf-8")) as GoldenSet;
+  if (!set.name || typeof set.version !== "number" || !Array.isArray(set.questions)) {
+    throw new GoldenSetError(`${filePath} must have a name, a numeric version and a questions array`);
+  }
+
+  const ids = new Set<string>();
+  for (const [index, question] of set.questions.entries()) {
+    if (!question.id || !question.question || !Array.isArray(question.expected) || !question.expected.length) {
+      throw new GoldenSetError(`Question ${index + 1} needs an id, a question and at least one expected section`);
+    }
+    if (ids.has(question.id)) {
+      throw new GoldenSetError(`Duplicate question id "${question.id}"`);
+    }
+    ids.add(question.id);
+  }
+
+  return set;
+}
+
+/** "Bharatiya Nyaya Sanhita, 2023" + "318(4)" -> "BNS 318" */
+export function sectionKey(act: string, section: string): string {
+  return `${resolveAct(act)?.code ?? act} ${baseSection(section)}`;
+}
+
+export function recallAtK(expected: string[], retrieved: string[], k: number): number {
+  if (!expected.length) return 0;
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter((key) => top.has(key)).length / expected.length;
+}
+
+export function reciprocalRank(expected: string[], retrieved: string[]): number {
+  const wanted = new Set(expected);
+  const index = retrieved.findIndex((key) => wanted.has(key));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+function tokenF1(candidate: string, reference: string): number {
+  const candidateTokens = tokenize(candidate);
+  const referenceCounts = new Map<string, number>();
+  for (const token of tokenize(reference)) referenceCounts.set(token, (referenceCounts.get(token) || 0) + 1);
+  if (!candidateTokens.length || !referenceCounts.size) return 0;
+
+  let overlap = 0;
+  for (const token of candidateTokens) {
+    const remaining = referenceCounts.get(token) || 0;
+    if (remaining > 0) {
+      overlap++;
+      referenceCounts.set(token, remaining - 1);
+    }
+  }
+  if (!overlap) return 0;
+
+  const precision = overlap / candidateTokens.length;
+  const recall = overlap / tokenize(reference).length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function evaluateResult(golden: GoldenQuestion, result: ChatResult, latencyMs: number): QuestionEvaluation {
+  const expected = [...new Set(golden.expected.map((item) => sectionKey(item.act, item.section)))];
+
+  // Ranked unique sections in source order; chunks of one section count once
+  const retrieved: string[] = [];
+  for (const source of result.sources) {
+    if (!source.section) continue;
+    const key = sectionKey(source.act, source.section);
+    if (!retrieved.includes(key)) retrieved.push(key);
+  }
+
+  const cited = [...new Set(parseCitations(result.answer).map((citation) => sectionKey(citation.act, citation.section)))];
+  const wanted = new Set(expected);
+  const claims = result.grounding?.claims ?? [];
+
+  return {
+    id: golden.id,
+    question: golden.question,
+    tags: golden.tags,
+    expected,
+    retrieved,
+    recallAtK: Object.fromEntries(RECALL_K_VALUES.map((k) => [k, round(recallAtK(expected, retrieved, k))])),
+    reciprocalRank: round(reciprocalRank(expected, retrieved)),
+    citationAccuracy: cited.length ? round(cited.filter((key) => wanted.has(key)).length / cited.length) : null,
+    cited,
+    faithfulness: claims.length
+      ? round(claims.filter((claim) => claim.status === "supported").length / claims.length)
+      : null,
+    notInContext: (result.grounding?.sections ?? [])
+      .filter((section) => section.status === "not-in-context")
+      .map((section) => section.reference),
+    referenceOverlap: golden.referenceAnswer ? round(tokenF1(result.answer, golden.referenceAnswer)) : null,
+    latencyMs,
+  };
+}
+
+/** A question whose pipeline run threw; scored as a complete miss */
+export function failedEvaluation(golden: GoldenQuestion, error: unknown, latencyMs: number): QuestionEvaluation {
+  return {
+    id: golden.id,
+    question: golden.question,
+    tags: golden.tags,
+    expected: golden.expected.map((item) => sectionKey(item.act, item.section)),
+    retrieved: [],
+    recallAtK: Object.fromEntries(RECALL_K_VALUES.map((k) => [k, 0])),
+    reciprocalRank: 0,
+    citationAccuracy: null,
+    cited: [],
+    faithfulness: null,
+    notInContext: [],
+    referenceOverlap: null,
+    latencyMs,
+    error: String(error),
+  };
+}
+
+function mean(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length ? round(present.reduce((sum, value) => sum + value, 0) / present.length) : null;
+}
+
+export function summarize(results: QuestionEvaluation[]): EvaluationSummary {
+  return {
+    questions: results.length,
+    failed: results.filter((result) => result.error).length,
+    recallAtK: Object.fromEntries(
+      RECALL_K_VALUES.map((k) => [k, mean(results.map((result) => result.recallAtK[k])) ?? 0]),
+    ),
+    mrr: mean(results.map((result) => result.reciprocalRank)) ?? 0,
+    citationAccuracy: mean(results.map((result) => result.citationAccuracy)),
+    faithfulness: mean(results.map((result) => result.faithfulness)),
+    referenceOverlap: mean(results.map((result) => result.referenceOverlap)),
+    notInContextSections: results.reduce((sum, result) => sum + result.notInContext.length, 0),
+    averageLatencyMs: Math.round(results.reduce((sum, result) => sum + result.latencyMs, 0) / (results.length || 1)),
+  };
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "–" : value.toFixed(3);
+}
+
+export function renderMarkdown(report: EvaluationReport): string {
+  const { summary } = report;
+  const lines = [
+    `# RAG evaluation: ${report.goldenSet.name} v${report.goldenSet.version}`,
+    "",
+    `Generated ${report.generatedAt}`,
+    "",
+    "## Configuration",
+    "",
+    ...Object.entries(report.config).map(([key, value]) => `- ${key}: \`${value}\``),
+    "",
+    "## Summary",
+    "",
+    "| Metric | Value |",
+    "| --- | --- |",
+    `| Questions | ${summary.questions} (${summary.failed} failed) |`,
+    ...RECALL_K_VALUES.map((k) => `| Recall@${k} | ${formatMetric(summary.recallAtK[k])} |`),
+    `| MRR | ${formatMetric(summary.mrr)} |`,
+    `| Citation accuracy | ${formatMetric(summary.citationAccuracy)} |`,
+    `| Faithfulness | ${formatMetric(summary.faithfulness)} |`,
+    `| Reference overlap (F1) | ${formatMetric(summary.referenceOverlap)} |`,
+    `| Sections cited but not retrieved | ${summary.notInContextSections} |`,
+    `| Average latency | ${summary.averageLatencyMs} ms |`,
+    "",
+    "## Questions",
+    "",
+    `| Question | Recall@5 | RR | Citation acc. | Faithfulness | Missing from context |`,
+    "| --- | --- | --- | --- | --- | --- |",
+    ...report.results.map((result) =>
+      [
+        "",
+        result.error ? `${result.id} (error)` : result.id,
+        formatMetric(result.recallAtK[5] ?? null),
+        formatMetric(result.reciprocalRank),
+        formatMetric(result.citationAccuracy),
+        formatMetric(result.faithfulness),
+        result.notInContext.join(", ") || "–",
+        "",
+      ].join(" | ").trim(),
+    ),
+    "",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,84 @@
+/**
+ * Retrieval filters accepted by the chat API and their translation into the
+ * vector store / BM25 metadata filter.
+ */
+
+import { resolveAct } from "./acts";
+import type { MetadataFilter } from "./vectorstore";
+
+export type SourceKind = "legal_dataset" | "upload";
+
+export type RetrievalFilters = {
+  // Act codes ("BNS"), aliases or index act names ("Negotiable Instruments Act, 1881")
+  acts?: string[];
+  chapter?: string;
+  source?: SourceKind;
+  // A specific uploaded file; implies source "upload"
+  fileName?: string;
+};
+
+const MAX_FILTER_ACTS = 20;
+
+function cleanString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate filters from an untrusted request body. Returns undefined when no
+ * usable filter was given.
+ */
+export function sanitizeFilters(value: unknown): RetrievalFilters | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  const filters: RetrievalFilters = {};
+
+  if (Array.isArray(raw.acts)) {
+    const acts = raw.acts.map(cleanString).filter((act): act is string => Boolean(act));
+    if (acts.length) filters.acts = [...new Set(acts)].slice(0, MAX_FILTER_ACTS);
+  }
+
+  const chapter = cleanString(raw.chapter);
+  if (chapter) filters.chapter = chapter;
+
+  if (raw.source === "legal_dataset" || raw.source === "upload") filters.source = raw.source;
+
+  const fileName = cleanString(raw.fileName);
+  if (fileName) {
+    filters.fileName = fileName;
+    filters.source = "upload";
+  }
+
+  return Object.keys(filters).length ? filters : undefined;
+}
+
+/**
+ * Every `act` metadata value the filter's acts can appear under: registry
+ * codes expand to all their index names, other names are used as given.
+ */
+export function actIndexNames(acts: string[]): string[] {
+  return [...new Set(acts.flatMap((act) => resolveAct(act)?.indexNames ?? [act]))];
+}
+
+export function toMetadataFilter(filters?: RetrievalFilters): MetadataFilter | undefined {
+  if (!filters) return undefined;
+
+  const filter: MetadataFilter = {};
+  if (filters.acts?.length) filter.act = { $in: actIndexNames(filters.acts) };
+  if (filters.chapter) filter.chapter = { $eq: filters.chapter };
+  if (filters.source) filter.source = { $eq: filters.source };
+  if (filters.fileName) filter.fileName = { $eq: filters.fileName };
+
+  return Object.keys(filter).length ? filter : undefined;
+}
+
+/**
+ * Whether a statute section of `act` may be added outside search (exact
+ * citation lookups, concordance counterparts) under these filters. Such
+ * sections carry no chapter or upload file, so those filters exclude them.
+ */
+export function allowsStatuteAct(filters: RetrievalFilters | undefined, act: string): boolean {
+  if (!filters) return true;
+  if (filters.source === "upload" || filters.fileName || filters.chapter) return false;
+  if (!filters.acts?.length) return true;
+  return actIndexNames(filters.acts).includes(act);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { GroundingContext, verifyGrounding } from "./grounding";
+
+const context: GroundingContext[] = [
+  {
+    marker: 1,
+    act: "BNS",
+    section: "103",
+    text: "[1] BNS Section 103 - Punishment for murder\nWhoever commits murder shall be punished with death or imprisonment for life, and shall also be liable to fine.",
+    correspondsTo: ["IPC 302"],
+  },
+];
+
+describe("verifyGrounding", () => {
+  it("does not report years as section references", () => {
+    const report = verifyGrounding(
+      "Under the 2023 BNS, which replaced the 1860 IPC, murder is punished with death or imprisonment for life [1].",
+      context,
+    );
+    expect(report.sections).toEqual([]);
+    expect(report.notInContext).toBe(0);
+  });
+
+  it("checks cited sections against the context and its counterparts", () => {
+    const report = verifyGrounding("BNS 103 corresponds to IPC 302, and BNS 318 covers cheating.", context);
+    expect(report.sections).toEqual([
+      { reference: "BNS 103", status: "supported" },
+      { reference: "IPC 302", status: "supported" },
+      { reference: "BNS 318", status: "not-in-context" },
+    ]);
+  });
+
+  it("judges claims by term overlap with their cited sections", () => {
+    const report = verifyGrounding(
+      "Whoever commits murder shall be punished with death or imprisonment for life [1].\n" +
+        "The accused must also surrender their passport to the magistrate [1].",
+      context,
+    );
+    expect(report.claims.map((claim) => claim.status)).toEqual(["supported", "unsupported"]);
+  });
+});
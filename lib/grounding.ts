@@ -0,0 +1,142 @@
+/**
+ * Post-generation grounding check: every act/section the answer mentions must
+ * have been in the retrieved context, and key claims (sentences that cite a
+ * marker or a section) must share most of their terms with the sections they
+ * rely on. Lexical only, so it runs on every answer without another model call.
+ */
+
+import { baseSection, resolveAct } from "./acts";
+import { tokenize } from "./bm25";
+import { formatCitation, parseCitations } from "./citations";
+import { splitMarkers } from "./markers";
+
+export type GroundingStatus = "supported" | "unsupported" | "not-in-context";
+
+/** A retrieved section as it was shown to the model */
+export type GroundingContext = {
+  marker: number;
+  act: string;
+  section?: string;
+  // The block as it appeared in the prompt, header included
+  text: string;
+  // Counterparts named in the section's label, e.g. "IPC 302"
+  correspondsTo?: string[];
+};
+
+export type SectionGrounding = {
+  reference: string;
+  status: Exclude<GroundingStatus, "unsupported">;
+};
+
+export type ClaimGrounding = {
+  claim: string;
+  markers: number[];
+  status: Exclude<GroundingStatus, "not-in-context">;
+  // Share of the claim's terms found in the sections it relies on
+  overlap: number;
+};
+
+export type GroundingReport = {
+  sections: SectionGrounding[];
+  claims: ClaimGrounding[];
+  supported: number;
+  unsupported: number;
+  notInContext: number;
+};
+
+// Claims with fewer content terms than this are too short to judge
+const MIN_CLAIM_TERMS = 4;
+// A claim is supported when at least this share of its terms appear in its sources
+const CLAIM_SUPPORT_THRESHOLD = 0.5;
+
+function referenceKey(act: string, section: string): string {
+  return `${resolveAct(act)?.code ?? act}:${baseSection(section)}`;
+}
+
+/**
+ * Sentences and list items outside the disclaimer, with markdown list and
+ * emphasis markers removed.
+ */
+function answerStatements(answer: string): string[] {
+  const statements: string[] = [];
+  let inDisclaimer = false;
+
+  for (const rawLine of answer.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      inDisclaimer = /disclaimer/i.test(heading[1]);
+      continue;
+    }
+    if (!line || inDisclaimer) continue;
+
+    const text = line.replace(/^(?:[-*+]|\d+\.)\s+/, "").replace(/\*\*?(.+?)\*\*?/g, "$1");
+    statements.push(...text.split(/(?<=[.!?])\s+(?=[A-Z])/));
+  }
+
+  return statements;
+}
+
+function checkClaim(statement: string, byMarker: Map<number, Set<string>>, all: Set<string>[]): ClaimGrounding | null {
+  const segments = splitMarkers(statement);
+  const markers = [...new Set(segments.flatMap((segment) => (typeof segment === "string" ? [] : segment.markers)))];
+  const claim = segments
+    .filter((segment): segment is string => typeof segment === "string")
+    .join("")
+    .replace(/\s+([.,;:!?])/g, "$1")
+    .trim();
+
+  if (!markers.length && !parseCitations(claim).length) return null;
+  const terms = [...new Set(tokenize(claim))];
+  if (terms.length < MIN_CLAIM_TERMS) return null;
+
+  const coverage = (source: Set<string>) => terms.filter((term) => source.has(term)).length / terms.length;
+
+  // Cited claims are judged against their cited sections together, others against the best single section
+  const cited = markers.map((marker) => byMarker.get(marker)).filter((source): source is Set<string> => Boolean(source));
+  const overlap = cited.length
+    ? coverage(new Set(cited.flatMap((source) => [...source])))
+    : Math.max(0, ...all.map(coverage));
+
+  return {
+    claim,
+    markers,
+    status: overlap >= CLAIM_SUPPORT_THRESHOLD ? "supported" : "unsupported",
+    overlap: Math.round(overlap * 100) / 100,
+  };
+}
+
+export function verifyGrounding(answer: string, context: GroundingContext[]): GroundingReport {
+  const shown = new Set<string>();
+  for (const doc of context) {
+    if (doc.section) shown.add(referenceKey(doc.act, doc.section));
+    for (const related of doc.correspondsTo ?? []) {
+      const [act, section] = related.split(" ");
+      if (act && section) shown.add(referenceKey(act, section));
+    }
+  }
+
+  const statements = answerStatements(answer);
+  const sections: SectionGrounding[] = parseCitations(statements.join("\n")).map((citation) => ({
+    reference: formatCitation(citation),
+    status: shown.has(referenceKey(citation.act, citation.section)) ? "supported" : "not-in-context",
+  }));
+
+  const termsByMarker = new Map(
+    context.map((doc) => [doc.marker, new Set(tokenize(doc.text))]),
+  );
+  const allTerms = [...termsByMarker.values()];
+  const claims = statements
+    .map((statement) => checkClaim(statement, termsByMarker, allTerms))
+    .filter((claim): claim is ClaimGrounding => claim !== null);
+
+  return {
+    sections,
+    claims,
+    supported:
+      sections.filter((section) => section.status === "supported").length +
+      claims.filter((claim) => claim.status === "supported").length,
+    unsupported: claims.filter((claim) => claim.status === "unsupported").length,
+    notInContext: sections.filter((section) => section.status === "not-in-context").length,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { reciprocalRankFusion, RRF_K, sanitizeWeights } from "./hybrid";
+
+const ranked = (...ids: string[]) => ids.map((id, index) => ({ id, score: 1 - index / 10 }));
+
+describe("reciprocalRankFusion", () => {
+  it("adds weight / (k + rank) from each retriever", () => {
+    const fused = reciprocalRankFusion({ vector: ranked("a", "b"), lexical: ranked("b", "c") });
+
+    expect(fused.map((match) => match.id)).toEqual(["b", "a", "c"]);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+    expect(fused[0].retrievers).toEqual({ vector: { rank: 2, score: 0.9 }, lexical: { rank: 1, score: 1 } });
+  });
+
+  it("skips retrievers with no weight and scales the rest", () => {
+    const rankings = { vector: ranked("a"), lexical: ranked("b") };
+
+    expect(reciprocalRankFusion(rankings, { vector: 0, lexical: 1 }).map((match) => match.id)).toEqual(["b"]);
+    expect(reciprocalRankFusion(rankings, { vector: 1, lexical: 2 }).map((match) => match.id)).toEqual(["b", "a"]);
+  });
+
+  it("keeps the first metadata seen for a match", () => {
+    const fused = reciprocalRankFusion({
+      vector: [{ id: "a", score: 1 }],
+      lexical: [{ id: "a", score: 1, metadata: { act: "IPC" } }],
+    });
+    expect(fused[0].metadata).toEqual({ act: "IPC" });
+  });
+});
+
+describe("sanitizeWeights", () => {
+  it("keeps known, finite, non-negative weights and caps them", () => {
+    expect(sanitizeWeights({ vector: 2, lexical: 50, other: 1 })).toEqual({ vector: 2, lexical: 10 });
+    expect(sanitizeWeights({ vector: -1, lexical: "2" })).toBeUndefined();
+    expect(sanitizeWeights(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Hybrid retrieval: dense vector search and BM25 lexical search run side by
+ * side and their rankings are merged with weighted reciprocal rank fusion.
+ * Each retriever searches every requested namespace and keeps the best scores.
+ */
+
+import { embedTexts } from "./llm";
+import { getLexicalIndex } from "./bm25";
+import { DEFAULT_NAMESPACE, getVectorStore, MetadataFilter, VectorMetadata } from "./vectorstore";
+import { ragLogger } from "./logger";
+
+export type RetrieverName = "vector" | "lexical";
+
+export type RetrievalWeights = Record<RetrieverName, number>;
+
+export const DEFAULT_RETRIEVAL_WEIGHTS: RetrievalWeights = { vector: 1, lexical: 1 };
+
+// Standard RRF damping constant; larger values flatten the gap between top ranks
+export const RRF_K = 60;
+// Each retriever returns this many times the requested results before fusion
+const CANDIDATE_MULTIPLIER = 3;
+const MAX_WEIGHT = 10;
+
+export type RankedMatch = {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+};
+
+export type RetrieverHit = {
+  // 1-based rank within that retriever's results
+  rank: number;
+  score: number;
+};
+
+export type FusedMatch = {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+  retrievers: Partial<Record<RetrieverName, RetrieverHit>>;
+};
+
+/**
+ * Weighted reciprocal rank fusion: each retriever contributes
+ * weight / (k + rank) for every result it returned.
+ */
+export function reciprocalRankFusion(
+  rankings: Partial<Record<RetrieverName, RankedMatch[]>>,
+  weights: RetrievalWeights = DEFAULT_RETRIEVAL_WEIGHTS,
+  k: number = RRF_K,
+): FusedMatch[] {
+  const fused = new Map<string, FusedMatch>();
+
+  for (const [name, matches] of Object.entries(rankings) as [RetrieverName, RankedMatch[]][]) {
+    const weight = weights[name] ?? 0;
+    if (weight <= 0) continue;
+
+    matches.forEach((match, index) => {
+      const rank = index + 1;
+      const entry = fused.get(match.id) ?? { id: match.id, score: 0, metadata: match.metadata, retrievers: {} };
+      entry.score += weight / (k + rank);
+      entry.metadata ??= match.metadata;
+      entry.retrievers[name] = { rank, score: match.score };
+      fused.set(match.id, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Validate per-request weights from an untrusted body, e.g. { vector: 1, lexical: 2 }.
+ * Unknown keys and non-numeric or negative values are dropped.
+ */
+export function sanitizeWeights(value: unknown): Partial<RetrievalWeights> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+
+  const weights: Partial<RetrievalWeights> = {};
+  for (const name of Object.keys(DEFAULT_RETRIEVAL_WEIGHTS) as RetrieverName[]) {
+    const weight = (value as Record<string, unknown>)[name];
+    if (typeof weight === "number" && Number.isFinite(weight) && weight >= 0) {
+      weights[name] = Math.min(weight, MAX_WEIGHT);
+    }
+  }
+
+  return Object.keys(weights).length ? weights : undefined;
+}
+
+export function resolveWeights(weights?: Partial<RetrievalWeights>): RetrievalWeights {
+  return { ...DEFAULT_RETRIEVAL_WEIGHTS, ...weights };
+}
+
+function topMatches(lists: RankedMatch[][], topK: number): RankedMatch[] {
+  return lists.flat().sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+async function vectorSearch(
+  query: string,
+  topK: number,
+  namespaces: string[],
+  filter?: MetadataFilter,
+): Promise<RankedMatch[]> {
+  const [embedding] = await embedTexts([query]);
+  if (!embedding) {
+    ragLogger.warn("Failed to generate query embedding for question");
+    return [];
+  }
+  const store = getVectorStore();
+  const lists = await Promise.all(
+    namespaces.map((namespace) => store.query({ vector: embedding, topK, filter, namespace })),
+  );
+  return topMatches(lists, topK);
+}
+
+function lexicalSearch(query: string, topK: number, namespaces: string[], filter?: MetadataFilter): RankedMatch[] {
+  return topMatches(
+    namespaces.map((namespace) => getLexicalIndex(namespace).search(query, topK, filter)),
+    topK,
+  );
+}
+
+/**
+ * Run the retrievers with a positive weight and fuse their rankings. A failing
+ * retriever is logged and treated as returning nothing. `filter` restricts
+ * both retrievers to matching metadata, `namespaces` to those partitions.
+ */
+export async function hybridRetrieve(
+  query: string,
+  limit: number,
+  weights?: Partial<RetrievalWeights>,
+  filter?: MetadataFilter,
+  namespaces: string[] = [DEFAULT_NAMESPACE],
+): Promise<FusedMatch[]> {
+  const resolved = resolveWeights(weights);
+  const candidates = limit * CANDIDATE_MULTIPLIER;
+  const startTime = Date.now();
+
+  const run = async (name: RetrieverName, search: () => Promise<RankedMatch[]>): Promise<RankedMatch[]> => {
+    if (resolved[name] <= 0) return [];
+    try {
+      return await search();
+    } catch (error) {
+      ragLogger.error(`${name} retrieval failed`, { error: String(error) });
+      return [];
+    }
+  };
+
+  const [vector, lexical] = await Promise.all([
+    run("vector", () => vectorSearch(query, candidates, namespaces, filter)),
+    run("lexical", async () => lexicalSearch(query, candidates, namespaces, filter)),
+  ]);
+
+  const fused = reciprocalRankFusion({ vector, lexical }, resolved).slice(0, limit);
+
+  ragLogger.info("Hybrid retrieval completed", {
+    vectorMatches: vector.length,
+    lexicalMatches: lexical.length,
+    fused: fused.length,
+    weights: resolved,
+    filtered: Boolean(filter),
+    namespaces,
+    retrievalTime: `${Date.now() - startTime}ms`
+  });
+
+  return fused;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens } from "../conversation";
+import { chunkLegalSections, chunkText, parseLegalUnits, splitLegalText } from "./chunker";
+import { LegalSection } from "./types";
+
+const MURDER = [
+  "(1) Whoever commits murder shall be punished with death.",
+  "(2) When a group of five or more persons acting in concert commits murder on the ground of— (a) race; (b) caste; or (c) any other similar ground, each member shall be punished as provided in sub-section (1).",
+  "Provided that nothing in this section applies to a child.",
+  "Explanation.—In this section the term group includes an assembly.",
+  "Illustrations",
+  "(a) A shoots Z. A commits murder.",
+  "(b) B poisons Z.",
+].join("\n");
+
+describe("parseLegalUnits", () => {
+  it("splits at sub-sections, clauses, provisos, Explanations and Illustrations", () => {
+    const units = parseLegalUnits(MURDER, "103");
+
+    expect(units.map((unit) => [unit.path, unit.type])).toEqual([
+      ["103(1)", "text"],
+      ["103(2)", "text"],
+      ["103(2)(a)", "text"],
+      ["103(2)(b)", "text"],
+      ["103(2)(c)", "text"],
+      ["103(2)(c)", "proviso"],
+      ["103(2)", "explanation"],
+      ["103(2)", "illustration"],
+      ["103(2)", "illustration"],
+      ["103(2)", "illustration"],
+    ]);
+    expect(units[2].text).toBe("(a) race;");
+  });
+
+  it("keeps inline references such as sub-section (1) in their unit", () => {
+    const clause = parseLegalUnits(MURDER, "103").find((unit) => unit.path === "103(2)(c)");
+    expect(clause?.text).toBe("(c) any other similar ground, each member shall be punished as provided in sub-section (1).");
+  });
+
+  it("nests roman numerals under a clause unless they follow (h)", () => {
+    const units = parseLegalUnits("(a) first: (i) sub one; (ii) sub two; (b) second; (h) eighth; (i) ninth", "2");
+    expect(units.map((unit) => unit.path)).toEqual(["2(a)", "2(a)(i)", "2(a)(ii)", "2(b)", "2(h)", "2(i)"]);
+  });
+
+  it("returns unstructured text as a single unit", () => {
+    expect(parseLegalUnits("Short title and commencement.")).toEqual([
+      { text: "Short title and commencement.", path: "", type: "text" },
+    ]);
+  });
+});
+
+describe("splitLegalText", () => {
+  const options = { maxTokens: 60, overlapTokens: 8 };
+  const chunks = splitLegalText(MURDER, options, { heading: "BNS - Section 103: Murder", section: "103" });
+
+  it("packs whole units into chunks that each start with the heading", () => {
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith("BNS - Section 103: Murder\n\n")).toBe(true);
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(options.maxTokens);
+    }
+    expect(chunks[0].clausePath).toBe("103(1)");
+    expect(chunks.at(-1)?.clauseTypes).toEqual(["explanation", "illustration"]);
+  });
+
+  it("repeats the end of one chunk at the start of the next", () => {
+    const second = chunks[1].text.split("\n\n")[1];
+    const overlap = second.split("\n")[0];
+    expect(chunks[0].text.replace(/\n/g, " ").endsWith(overlap)).toBe(true);
+  });
+
+  it("keeps the heading for a section without text", () => {
+    expect(splitLegalText("", options, { heading: "BNS - Section 1: Short title" })).toEqual([
+      { text: "BNS - Section 1: Short title", clausePaths: [], clauseTypes: [] },
+    ]);
+  });
+});
+
+describe("chunkLegalSections", () => {
+  const section = (id: string, description: string): LegalSection => ({
+    id,
+    act: "BNS",
+    section: id.split("_")[1],
+    title: "Murder",
+    description,
+  });
+
+  it("keeps the section id for one chunk and numbers longer sections", () => {
+    const chunks = chunkLegalSections([section("bns_101", "Murder is culpable homicide."), section("bns_103", MURDER)], {
+      maxTokens: 60,
+      overlapTokens: 8,
+    });
+
+    expect(chunks[0]).toMatchObject({ id: "bns_101", metadata: { act: "BNS", section: "101", source: "legal_dataset" } });
+    expect(chunks[0].metadata).not.toHaveProperty("chunkIndex");
+    expect(chunks.slice(1).map((chunk) => [chunk.id, chunk.metadata.chunkIndex])).toEqual([
+      ["bns_103_chunk_0", 0],
+      ["bns_103_chunk_1", 1],
+      ["bns_103_chunk_2", 2],
+    ]);
+    expect(chunks[1].metadata.clausePaths).toEqual(["103(1)", "103(2)", "103(2)(a)", "103(2)(b)"]);
+  });
+});
+
+describe("chunkText", () => {
+  it("splits on word boundaries within the size limit", () => {
+    expect(chunkText("aaa bbb ccc ddd", 7)).toEqual(["aaa bbb", "ccc ddd"]);
+    expect(chunkText("supercalifragilistic x", 5)).toEqual(["supercalifragilistic", "x"]);
+    expect(chunkText("   ")).toEqual([]);
+  });
+});
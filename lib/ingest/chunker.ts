@@ -0,0 +1,297 @@
+import { estimateTokens } from "../conversation";
+import { getChunkingConfig } from "../env";
+import { ChunkMetadata, IngestChunk, LegalSection } from "./types";
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+
+export type ChunkOptions = {
+  maxTokens: number;
+  overlapTokens: number;
+};
+
+export type ClauseType = "text" | "proviso" | "explanation" | "illustration";
+
+/** A run of provision text under one structural marker: a sub-section, clause, proviso, ... */
+export type LegalUnit = {
+  text: string;
+  // e.g. "103(2)(b)"; empty for text before any marker in a document without a section number
+  path: string;
+  type: ClauseType;
+};
+
+export type LegalChunk = {
+  text: string;
+  // Path of the first unit in the chunk
+  clausePath?: string;
+  clausePaths: string[];
+  clauseTypes: ClauseType[];
+};
+
+/**
+ * Split text on word boundaries into chunks of at most `chunkSize` characters
+ * (a single word longer than the limit becomes its own chunk).
+ */
+export function chunkText(text: string, chunkSize: number = DEFAULT_CHUNK_SIZE): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.length <= chunkSize) return [trimmed];
+
+  const chunks: string[] = [];
+  const words = trimmed.split(" ");
+  let currentChunk = "";
+
+  for (const word of words) {
+    if ((currentChunk + " " + word).length > chunkSize && currentChunk.length > 0) {
+      chunks.push(currentChunk.trim());
+      currentChunk = word;
+    } else {
+      currentChunk += (currentChunk ? " " : "") + word;
+    }
+  }
+
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+
+  return chunks;
+}
+
+// A marker only counts at the start of a line or after clause-ending punctuation
+// ("...such change,— (a)", "...; or (b)"), so references like "sub-section (1)" stay inline
+const MARKER = new RegExp(
+  String.raw`(?<=^|\n|[.:;,]?[—–]\s*|[.:;]\s+|;\s*(?:or|and)\s+)` +
+    String.raw`(?:\((\d{1,3}[A-Z]{0,2})\)` +
+    String.raw`|\(([ivx]{1,5}|[a-z]{1,2})\)` +
+    String.raw`|(Provided\s+(?:further\s+|also\s+|however\s+)?that)` +
+    String.raw`|(Explanations?(?:\s+(?:\d+|[IVX]+))?)(?=\s*[.:—–-]|\s*\n)` +
+    String.raw`|(Illustrations?)(?=\s*[.:—–-]|\s*\n|\s*$))`,
+  "g",
+);
+
+const ROMAN = /^(?:i|ii|iii|iv|v|vi|vii|viii|ix|x|xi|xii|xiii|xiv|xv)$/;
+
+function nextLetter(letter: string): string | undefined {
+  return letter.length === 1 ? String.fromCharCode(letter.charCodeAt(0) + 1) : undefined;
+}
+
+/**
+ * Split provision text into units at sub-sections "(1)", clauses "(a)",
+ * sub-clauses "(i)", provisos, Explanations and Illustrations. Each unit
+ * records its clause path under `section`, e.g. "103(2)(b)". Lettered items
+ * under an Illustrations heading are illustrations, not clauses.
+ */
+export function parseLegalUnits(text: string, section: string = ""): LegalUnit[] {
+  const units: LegalUnit[] = [];
+  let subsection: string | undefined;
+  let clause: string | undefined;
+  let subClause: string | undefined;
+  let type: ClauseType = "text";
+  let inIllustrations = false;
+
+  const currentPath = () =>
+    section + [subsection, clause, subClause].filter(Boolean).map((part) => `(${part})`).join("");
+
+  let start = 0;
+  let unitPath = currentPath();
+  let unitType: ClauseType = type;
+  const push = (end: number) => {
+    const unitText = text.slice(start, end).trim();
+    if (unitText) units.push({ text: unitText, path: unitPath, type: unitType });
+  };
+
+  for (const match of text.matchAll(MARKER)) {
+    push(match.index!);
+    start = match.index!;
+    const [, subsectionMarker, letter, proviso, explanation, illustration] = match;
+
+    if (subsectionMarker) {
+      subsection = subsectionMarker;
+      clause = subClause = undefined;
+      type = "text";
+      inIllustrations = false;
+    } else if (letter && !inIllustrations) {
+      // "(i)" after "(h)" is a clause; otherwise roman numerals nest under the current clause
+      if (ROMAN.test(letter) && clause !== undefined && (subClause !== undefined || letter !== nextLetter(clause))) {
+        subClause = letter;
+      } else {
+        clause = letter;
+        subClause = undefined;
+      }
+    } else if (proviso) {
+      type = "proviso";
+    } else if (explanation) {
+      type = "explanation";
+      clause = subClause = undefined;
+      inIllustrations = false;
+    } else if (illustration) {
+      type = "illustration";
+      clause = subClause = undefined;
+      inIllustrations = true;
+    }
+
+    unitPath = currentPath();
+    unitType = type;
+  }
+  push(text.length);
+
+  return units;
+}
+
+/** Split text longer than `maxTokens` at sentence ends, falling back to word boundaries */
+function splitLongText(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of text.split(/(?<=[.;:])\s+/)) {
+    const candidate = current ? `${current} ${sentence}` : sentence;
+    if (estimateTokens(candidate) <= maxTokens) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    if (estimateTokens(sentence) <= maxTokens) {
+      current = sentence;
+    } else {
+      const words = chunkText(sentence, maxTokens * 4);
+      current = words.pop() ?? "";
+      pieces.push(...words);
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/** Trailing words of `text` within `tokens`, repeated at the start of the next chunk */
+function overlapTail(text: string, tokens: number): string {
+  if (tokens <= 0) return "";
+  const words = text.split(/\s+/);
+  const tail: string[] = [];
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (estimateTokens([words[i], ...tail].join(" ")) > tokens) break;
+    tail.unshift(words[i]);
+  }
+  return tail.join(" ");
+}
+
+/**
+ * Chunk provision text along its legal structure: whole units are packed into
+ * chunks of at most `maxTokens` (heading included), a unit is only split when
+ * it alone is too long, and consecutive chunks share `overlapTokens` of text.
+ * The heading, when given, starts every chunk so each one names its section.
+ */
+export function splitLegalText(
+  text: string,
+  options: ChunkOptions,
+  context: { heading?: string; section?: string } = {},
+): LegalChunk[] {
+  const heading = context.heading ? `${context.heading}\n\n` : "";
+  const bodyTokens = Math.max(options.maxTokens - estimateTokens(heading), Math.ceil(options.maxTokens / 2));
+  const pieceTokens = Math.max(bodyTokens - options.overlapTokens, 1);
+
+  const pieces = parseLegalUnits(text, context.section).flatMap((unit) =>
+    splitLongText(unit.text, pieceTokens).map((pieceText) => ({ ...unit, text: pieceText })),
+  );
+
+  const chunks: LegalChunk[] = [];
+  let parts: LegalUnit[] = [];
+  let overlap = "";
+  const body = (extra: LegalUnit[] = []) => [overlap, ...[...parts, ...extra].map((part) => part.text)].filter(Boolean).join("\n");
+
+  const emit = () => {
+    if (!parts.length) return;
+    const clausePaths = [...new Set(parts.map((part) => part.path).filter(Boolean))];
+    chunks.push({
+      text: heading + body(),
+      clausePath: clausePaths[0],
+      clausePaths,
+      clauseTypes: [...new Set(parts.map((part) => part.type))],
+    });
+    overlap = overlapTail(parts.map((part) => part.text).join(" "), options.overlapTokens);
+    parts = [];
+  };
+
+  for (const piece of pieces) {
+    if (parts.length && estimateTokens(body([piece])) > bodyTokens) emit();
+    parts.push(piece);
+  }
+  emit();
+
+  if (!chunks.length && context.heading) {
+    chunks.push({ text: context.heading, clausePaths: [], clauseTypes: [] });
+  }
+  return chunks;
+}
+
+/** Clause fields for chunk metadata; omitted when the text has no structure markers */
+export function clauseMetadata(chunk: LegalChunk): ChunkMetadata {
+  const metadata: ChunkMetadata = {};
+  if (chunk.clausePath) metadata.clausePath = chunk.clausePath;
+  if (chunk.clausePaths.length) metadata.clausePaths = chunk.clausePaths;
+  if (chunk.clauseTypes.length) metadata.clauseTypes = chunk.clauseTypes;
+  return metadata;
+}
+
+// Pinecone rejects undefined metadata values, so only include the fields a source provides
+function sectionMetadata(section: LegalSection): ChunkMetadata {
+  const metadata: ChunkMetadata = {
+    act: section.act,
+    section: section.section,
+    title: section.title,
+    source: "legal_dataset",
+  };
+  if (section.actNumber) metadata.actNumber = section.actNumber;
+  if (section.year) metadata.year = section.year;
+  if (section.chapter) metadata.chapter = section.chapter;
+  if (section.chapterName) metadata.chapterName = section.chapterName;
+  if (section.offense) metadata.offense = section.offense;
+  if (section.punishment) metadata.punishment = section.punishment;
+  return metadata;
+}
+
+function sectionHeading(section: LegalSection): string {
+  return `${section.act} - Section ${section.section}: ${section.title}`;
+}
+
+function sectionBody(section: LegalSection): string {
+  return [section.description, section.text].filter(Boolean).join("\n\n");
+}
+
+export function sectionText(section: LegalSection): string {
+  return [sectionHeading(section), sectionBody(section)].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Turn legal sections into embedding-sized chunks split along their legal
+ * structure. A section that fits in one chunk keeps its own id; longer
+ * sections get `<id>_chunk_<n>` ids.
+ */
+export function chunkLegalSections(
+  sections: LegalSection[],
+  options: ChunkOptions = getChunkingConfig(),
+): IngestChunk[] {
+  const chunks: IngestChunk[] = [];
+
+  for (const section of sections) {
+    const parts = splitLegalText(sectionBody(section), options, {
+      heading: sectionHeading(section),
+      section: section.section,
+    });
+    const metadata = sectionMetadata(section);
+
+    if (parts.length === 1) {
+      chunks.push({ id: section.id, text: parts[0].text, metadata: { ...metadata, ...clauseMetadata(parts[0]) } });
+      continue;
+    }
+
+    parts.forEach((part, chunkIndex) => {
+      chunks.push({
+        id: `${section.id}_chunk_${chunkIndex}`,
+        text: part.text,
+        metadata: { ...metadata, ...clauseMetadata(part), chunkIndex },
+      });
+    });
+  }
+
+  return chunks;
+}
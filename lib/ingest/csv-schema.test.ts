@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { CSV_SOURCES, CsvSchemaError, findMissingColumns, parseCsvSource } from "./csv-schema";
+
+const ipc = CSV_SOURCES.find((source) => source.act === "IPC")!;
+const bns = CSV_SOURCES.find((source) => source.act === "BNS")!;
+
+describe("parseCsvSource", () => {
+  it("maps columns and strips act prefixes from section numbers", () => {
+    const content = 'Description,Offense,Punishment,Section\n"Cheats, and dishonestly...",Cheating,7 Years,IPC_420\n';
+    expect(parseCsvSource(content, ipc)).toEqual([
+      {
+        id: "ipc_420",
+        act: "IPC",
+        section: "420",
+        title: "Cheating",
+        description: "Cheats, and dishonestly...",
+        offense: "Cheating",
+        punishment: "7 Years",
+      },
+    ]);
+  });
+
+  it("ignores a byte-order mark and numbers duplicate sections", () => {
+    const content =
+      "\uFEFFChapter,Chapter_name,Chapter_subtype,Section,Section _name,Description\n" +
+      "1,Preliminary,Preliminary,1,Short title,Text one\n" +
+      "1,Preliminary,Preliminary,1,Short title,Text two\n";
+    const sections = parseCsvSource(content, bns);
+
+    expect(sections.map((section) => section.id)).toEqual(["bns_1", "bns_1_2"]);
+    expect(sections[0]).toMatchObject({ chapter: "1", chapterName: "Preliminary", title: "Short title" });
+  });
+
+  it("throws CsvSchemaError naming missing columns", () => {
+    const content = "Chapter,Section,Title,Description\n1,1,Short title,Text\n";
+    expect(() => parseCsvSource(content, bns)).toThrow(CsvSchemaError);
+    expect(findMissingColumns(bns, ["Chapter", "Section", "Title", "Description"])).toEqual([
+      "Chapter_name",
+      "Section _name",
+    ]);
+  });
+});
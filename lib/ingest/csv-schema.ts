@@ -0,0 +1,142 @@
+/**
+ * Declarative column mappings for the per-act CSV files in dataset/
+ *
+ * Each source names the CSV column that feeds each LegalSection field. Headers
+ * are checked against the mapping when a file is parsed, so a renamed or
+ * missing column fails loudly instead of producing empty titles or sections.
+ */
+
+import { parse } from "csv-parse/sync";
+
+export type CsvField =
+  | "section"
+  | "title"
+  | "description"
+  | "chapter"
+  | "chapterName"
+  | "offense"
+  | "punishment";
+
+export type CsvSource = {
+  file: string;
+  act: string;
+  columns: Partial<Record<CsvField, string>> & { section: string };
+  // Strips act prefixes such as "IPC_" from the section column
+  sectionPattern?: RegExp;
+};
+
+export type CsvSection = {
+  id: string;
+  act: string;
+  section: string;
+  title: string;
+  description: string;
+  chapter?: string;
+  chapterName?: string;
+  offense?: string;
+  punishment?: string;
+};
+
+const CHAPTERED_COLUMNS = {
+  chapter: "Chapter",
+  chapterName: "Chapter_name",
+  section: "Section",
+  title: "Section _name",
+  description: "Description",
+};
+
+export const CSV_SOURCES: CsvSource[] = [
+  {
+    file: "ipc_sections.csv",
+    act: "IPC",
+    columns: {
+      section: "Section",
+      title: "Offense",
+      description: "Description",
+      offense: "Offense",
+      punishment: "Punishment",
+    },
+    sectionPattern: /^IPC_(.+)$/i,
+  },
+  { file: "bns_sections.csv", act: "BNS", columns: CHAPTERED_COLUMNS },
+  { file: "bsa_sections.csv", act: "BSA", columns: CHAPTERED_COLUMNS },
+  { file: "crpc_sections.csv", act: "CrPC", columns: CHAPTERED_COLUMNS },
+];
+
+export class CsvSchemaError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly missingColumns: string[],
+    public readonly foundColumns: string[],
+  ) {
+    super(
+      `CSV file ${file} does not match its column mapping. Missing: ${missingColumns.join(", ")}. Found: ${foundColumns.join(", ")}`,
+    );
+    this.name = "CsvSchemaError";
+  }
+}
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, "").trim();
+}
+
+/**
+ * Returns the mapped columns that are absent from `headers`.
+ */
+export function findMissingColumns(source: CsvSource, headers: string[]): string[] {
+  const available = new Set(headers.map(normalizeHeader));
+  return Object.values(source.columns).filter((column) => !available.has(column));
+}
+
+/**
+ * Parse CSV content for one source, validating the header row against its
+ * mapping. Throws CsvSchemaError when a mapped column is missing.
+ */
+export function parseCsvSource(content: string, source: CsvSource): CsvSection[] {
+  const records: Record<string, string>[] = parse(content, {
+    columns: (headers: string[]) => {
+      const normalized = headers.map(normalizeHeader);
+      const missing = findMissingColumns(source, normalized);
+      if (missing.length) {
+        throw new CsvSchemaError(source.file, missing, normalized);
+      }
+      return normalized;
+    },
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+  });
+
+  const read = (record: Record<string, string>, field: CsvField): string | undefined => {
+    const column = source.columns[field];
+    const value = column ? record[column]?.trim() : undefined;
+    return value || undefined;
+  };
+
+  const seenIds = new Map<string, number>();
+  const sections: CsvSection[] = [];
+
+  records.forEach((record, index) => {
+    const rawSection = read(record, "section") || "";
+    const prefixed = source.sectionPattern ? rawSection.match(source.sectionPattern) : null;
+    const section = (prefixed ? prefixed[1] : rawSection).trim();
+
+    const baseId = `${source.act.toLowerCase()}_${section || `row${index + 1}`}`.replace(/[^A-Za-z0-9_-]/g, "_");
+    const occurrence = seenIds.get(baseId) || 0;
+    seenIds.set(baseId, occurrence + 1);
+
+    sections.push({
+      id: occurrence ? `${baseId}_${occurrence + 1}` : baseId,
+      act: source.act,
+      section,
+      title: read(record, "title") || "",
+      description: read(record, "description") || "",
+      chapter: read(record, "chapter"),
+      chapterName: read(record, "chapterName"),
+      offense: read(record, "offense"),
+      punishment: read(record, "punishment"),
+    });
+  });
+
+  return sections;
+}
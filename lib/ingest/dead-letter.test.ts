@@ -0,0 +1,34 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { addDeadLetters, DeadLetter, loadDeadLetters, removeDeadLetters } from "./dead-letter";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "dead-letter-"));
+const filePath = path.join(directory, "dead-letter.json");
+
+function entry(id: string, namespace?: string): DeadLetter {
+  return { chunk: { id, text: id, metadata: {} }, namespace, error: "503", attempts: 5, failedAt: "2026-01-01T00:00:00Z" };
+}
+
+const ids = (entries: DeadLetter[]) => entries.map((item) => `${item.namespace ?? "-"}/${item.chunk.id}`).sort();
+
+afterEach(() => fs.rmSync(filePath, { force: true }));
+afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe("dead letters", () => {
+  it("keeps every entry when batches fail at the same time", async () => {
+    await Promise.all(["a", "b", "c", "d"].map((id) => addDeadLetters([entry(id)], filePath)));
+    expect(ids(await loadDeadLetters(filePath))).toEqual(["-/a", "-/b", "-/c", "-/d"]);
+  });
+
+  it("applies concurrent removals and additions in order", async () => {
+    await addDeadLetters([entry("a"), entry("a", "ws-team"), entry("b", "ws-team")], filePath);
+    await Promise.all([
+      removeDeadLetters(["a"], undefined, filePath),
+      addDeadLetters([entry("c")], filePath),
+      removeDeadLetters("all", "ws-team", filePath),
+    ]);
+    expect(ids(await loadDeadLetters(filePath))).toEqual(["-/c"]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Dead-letter list of chunks whose batch still failed after every retry.
+ * Entries keep the whole chunk, so uploads can be replayed as well as dataset
+ * sections. Stored as JSON (DEAD_LETTER_PATH, default data/dead-letter.json).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_NAMESPACE } from "../vectorstore";
+import { IngestChunk } from "./types";
+
+export type DeadLetter = {
+  chunk: IngestChunk;
+  // Vector namespace the chunk belongs in; absent for the default namespace
+  namespace?: string;
+  error: string;
+  attempts: number;
+  failedAt: string;
+};
+
+export function deadLetterPath(): string {
+  return process.env.DEAD_LETTER_PATH || path.join(process.cwd(), "data", "dead-letter.json");
+}
+
+// Read-modify-write updates run one after another, e.g. concurrent upload batches failing together
+let writing: Promise<unknown> = Promise.resolve();
+
+async function readDeadLetters(filePath: string): Promise<DeadLetter[]> {
+  if (!fs.existsSync(filePath)) return [];
+  return JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as DeadLetter[];
+}
+
+export async function loadDeadLetters(filePath = deadLetterPath()): Promise<DeadLetter[]> {
+  await writing.catch(() => undefined);
+  return readDeadLetters(filePath);
+}
+
+async function saveDeadLetters(entries: DeadLetter[], filePath: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(entries, null, 2), "utf-8");
+  await fs.promises.rename(temp, filePath);
+}
+
+function updateDeadLetters(filePath: string, change: (entries: DeadLetter[]) => DeadLetter[]): Promise<void> {
+  const run = writing
+    .catch(() => undefined)
+    .then(async () => saveDeadLetters(change(await readDeadLetters(filePath)), filePath));
+  writing = run;
+  return run;
+}
+
+// The same chunk id can exist in several namespaces
+function entryKey(id: string, namespace: string = DEFAULT_NAMESPACE): string {
+  return `${namespace}\u0000${id}`;
+}
+
+/** Add failed chunks, replacing earlier entries for the same chunk ids */
+export async function addDeadLetters(entries: DeadLetter[], filePath = deadLetterPath()): Promise<void> {
+  if (!entries.length) return;
+  const keys = new Set(entries.map((entry) => entryKey(entry.chunk.id, entry.namespace)));
+  await updateDeadLetters(filePath, (existing) => [
+    ...existing.filter((entry) => !keys.has(entryKey(entry.chunk.id, entry.namespace))),
+    ...entries,
+  ]);
+}
+
+/** Remove the entries for the given chunk ids; all of a namespace's entries when `ids` is "all" */
+export async function removeDeadLetters(
+  ids: string[] | "all",
+  namespace: string = DEFAULT_NAMESPACE,
+  filePath = deadLetterPath(),
+): Promise<void> {
+  if (ids !== "all" && !ids.length) return;
+  const remove = ids === "all" ? null : new Set(ids.map((id) => entryKey(id, namespace)));
+  await updateDeadLetters(filePath, (existing) =>
+    existing.filter((entry) =>
+      remove ? !remove.has(entryKey(entry.chunk.id, entry.namespace)) : (entry.namespace ?? DEFAULT_NAMESPACE) !== namespace,
+    ),
+  );
+}
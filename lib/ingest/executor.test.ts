@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { backoffDelay, isRetryable, retryAfterMs, RetryError, runConcurrently, withRetry } from "./executor";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("isRetryable", () => {
+  it("retries rate limits, server errors and dropped connections", () => {
+    expect(isRetryable({ status: 429 })).toBe(true);
+    expect(isRetryable({ response: { status: 503 } })).toBe(true);
+    expect(isRetryable({ code: "ECONNRESET" })).toBe(true);
+    expect(isRetryable({ name: "APIConnectionError" })).toBe(true);
+    expect(isRetryable(Object.assign(new TypeError("fetch failed"), { cause: { code: "ETIMEDOUT" } }))).toBe(true);
+  });
+
+  it("gives up on client errors and unknown values", () => {
+    expect(isRetryable({ status: 400 })).toBe(false);
+    expect(isRetryable({ status: 401, code: "ECONNRESET" })).toBe(false);
+    expect(isRetryable(new Error("bad input"))).toBe(false);
+    expect(isRetryable("oops")).toBe(false);
+  });
+});
+
+describe("retryAfterMs", () => {
+  it("reads retry-after-ms, seconds and HTTP dates", () => {
+    expect(retryAfterMs({ headers: { "retry-after-ms": "250" } })).toBe(250);
+    expect(retryAfterMs({ headers: new Headers({ "retry-after": "2" }) })).toBe(2000);
+
+    vi.useFakeTimers({ now: Date.parse("2026-01-01T00:00:00Z") });
+    expect(retryAfterMs({ response: { headers: { "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" } } })).toBe(5000);
+    expect(retryAfterMs({ headers: {} })).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt with jitter and a cap", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect([1, 2, 3].map(backoffDelay)).toEqual([500, 1000, 2000]);
+    expect(backoffDelay(20)).toBe(30_000);
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(1)).toBe(250);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable failures and returns the first success", async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce({ status: 429, headers: { "retry-after-ms": "1" } })
+      .mockResolvedValueOnce("ok");
+    const onRetry = vi.fn();
+
+    await expect(withRetry(operation, { maxAttempts: 3, label: "batch", onRetry })).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.anything(), 1, 1);
+  });
+
+  it("stops at the attempt limit or on a permanent error", async () => {
+    const failing = vi.fn(() => Promise.reject({ status: 503, headers: { "retry-after-ms": "1" } }));
+    const error = await withRetry(failing, { maxAttempts: 2, label: "batch" }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.attempts).toBe(2);
+
+    const invalid = vi.fn(() => Promise.reject({ status: 400 }));
+    await expect(withRetry(invalid, { maxAttempts: 5, label: "batch" })).rejects.toMatchObject({ attempts: 1 });
+    expect(invalid).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runConcurrently", () => {
+  it("limits work in flight and stops on request after a prefix", async () => {
+    let active = 0;
+    let peak = 0;
+    const done: number[] = [];
+    const started = await runConcurrently([1, 2, 3, 4, 5], 2, async (item) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      done.push(item);
+    }, () => done.length >= 2);
+
+    expect(peak).toBe(2);
+    expect(started).toBeLessThan(5);
+    expect(done.sort()).toEqual([1, 2, 3, 4].slice(0, started));
+  });
+});
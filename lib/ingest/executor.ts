@@ -0,0 +1,158 @@
+/**
+ * Batch execution helpers for the indexing pipeline: a concurrency-limited
+ * runner, retries with exponential backoff that honour Retry-After, and a
+ * tokens-per-minute budget for embedding requests.
+ */
+
+const BASE_DELAY_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+// Upper bound on a server-requested wait, so a bad header cannot stall a run
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+const WINDOW_MS = 60_000;
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"]);
+// OpenAI and Pinecone SDK errors for dropped connections, timeouts and outages
+const RETRYABLE_NAMES = /Connection|Timeout|Unavailable|InternalServer/;
+
+/** Raised by withRetry once an operation has failed for good */
+export class RetryError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: number,
+    readonly cause: unknown,
+  ) {
+    super(message);
+    this.name = "RetryError";
+  }
+}
+
+export type RetryOptions = {
+  maxAttempts: number;
+  // Used in log and error messages
+  label: string;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+};
+
+type ErrorLike = {
+  name?: string;
+  code?: string;
+  status?: number;
+  statusCode?: number;
+  headers?: unknown;
+  response?: { status?: number; headers?: unknown };
+  cause?: unknown;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function errorStatus(error: ErrorLike): number | undefined {
+  return error.status ?? error.statusCode ?? error.response?.status;
+}
+
+/** Rate limits, server errors and network failures are worth another attempt */
+export function isRetryable(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const details = error as ErrorLike;
+
+  const status = errorStatus(details);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status);
+  if (details.code && RETRYABLE_CODES.has(details.code)) return true;
+  if (details.name && RETRYABLE_NAMES.test(details.name)) return true;
+  // fetch() reports network failures as a TypeError with the socket error as its cause
+  return details.cause !== undefined && details.cause !== error && isRetryable(details.cause);
+}
+
+function header(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name) ?? undefined;
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Wait requested by the server via Retry-After (seconds or an HTTP date) or retry-after-ms */
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  const details = error as ErrorLike;
+  const headers = details.headers ?? details.response?.headers;
+
+  const milliseconds = Number(header(headers, "retry-after-ms"));
+  if (milliseconds > 0) return milliseconds;
+
+  const value = header(headers, "retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with jitter for the given (1-based) failed attempt */
+export function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isRetryable(error)) {
+        throw new RetryError(`${options.label} failed after ${attempt} attempt(s): ${error}`, attempt, error);
+      }
+      const delay = Math.min(retryAfterMs(error) ?? backoffDelay(attempt), MAX_RETRY_AFTER_MS);
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight. Items are
+ * started in order and `shouldStop` is checked before each one, so the items
+ * that ran always form a prefix of the list.
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false,
+): Promise<number> {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+  return next;
+}
+
+/**
+ * Sliding one-minute token budget. acquire() waits until the tokens fit;
+ * a limit of 0 disables budgeting.
+ */
+export class TokenBudget {
+  private spent: { at: number; tokens: number }[] = [];
+
+  constructor(private readonly tokensPerMinute: number) {}
+
+  async acquire(tokens: number): Promise<void> {
+    if (this.tokensPerMinute <= 0) return;
+    // A request larger than the whole budget goes through once the window is empty
+    const needed = Math.min(tokens, this.tokensPerMinute);
+
+    for (;;) {
+      const now = Date.now();
+      this.spent = this.spent.filter((entry) => now - entry.at < WINDOW_MS);
+      const used = this.spent.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (used + needed <= this.tokensPerMinute) {
+        this.spent.push({ at: now, tokens });
+        return;
+      }
+      await sleep(this.spent[0].at + WINDOW_MS - now);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Text extraction for uploaded documents. The type is detected from the
+ * file's magic bytes (the extension only tells HTML and Markdown apart from
+ * plain text), and PDFs keep their page numbers.
+ */
+
+import * as path from "path";
+
+export type DocumentType = "pdf" | "docx" | "html" | "markdown" | "text";
+
+export type ExtractedPage = {
+  text: string;
+  // 1-based page number; PDFs only
+  page?: number;
+};
+
+export type ExtractedDocument = {
+  type: DocumentType;
+  pages: ExtractedPage[];
+  totalPages?: number;
+};
+
+/** The upload is a format we cannot extract text from; the API answers 415 */
+export class UnsupportedDocumentError extends Error {
+  constructor(
+    readonly fileName: string,
+    readonly detected: string,
+  ) {
+    super(`${fileName}: ${detected} files are not supported. Upload PDF, DOCX, HTML, Markdown or plain text.`);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+const PDF_MAGIC = Buffer.from("%PDF-");
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// Formats users are likely to try, named in the 415 message
+const KNOWN_BINARIES: { name: string; magic: Buffer }[] = [
+  { name: "Legacy Word (.doc)", magic: Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+  { name: "PNG image", magic: Buffer.from([0x89, 0x50, 0x4e, 0x47]) },
+  { name: "JPEG image", magic: Buffer.from([0xff, 0xd8, 0xff]) },
+  { name: "GIF image", magic: Buffer.from("GIF8") },
+  { name: "RTF", magic: Buffer.from("{\\rtf") },
+];
+// Bytes inspected when deciding whether a file is text
+const TEXT_SNIFF_BYTES = 8192;
+
+const HTML_EXTENSIONS = new Set([".html", ".htm", ".xhtml"]);
+const MARKDOWN_EXTENSIONS = new Set([".md", ".markdown"]);
+
+function startsWith(buffer: Buffer, magic: Buffer): boolean {
+  return buffer.length >= magic.length && buffer.subarray(0, magic.length).equals(magic);
+}
+
+function isText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, TEXT_SNIFF_BYTES);
+  if (sample.includes(0)) return false;
+  try {
+    // A multi-byte character cut at the sample boundary is not an error
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: sample.length < buffer.length });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the document type, or throw UnsupportedDocumentError. A ZIP is
+ * only accepted when it is a Word document (it has a word/document.xml part).
+ */
+export function detectDocumentType(buffer: Buffer, fileName: string): DocumentType {
+  if (startsWith(buffer, PDF_MAGIC)) return "pdf";
+  if (startsWith(buffer, ZIP_MAGIC)) {
+    if (buffer.includes("word/document.xml")) return "docx";
+    throw new UnsupportedDocumentError(fileName, "ZIP archive");
+  }
+
+  const known = KNOWN_BINARIES.find((candidate) => startsWith(buffer, candidate.magic));
+  if (known) throw new UnsupportedDocumentError(fileName, known.name);
+  if (!isText(buffer)) throw new UnsupportedDocumentError(fileName, "Binary");
+
+  const extension = path.extname(fileName).toLowerCase();
+  const head = buffer.subarray(0, 1024).toString("utf8").trimStart().toLowerCase();
+  if (HTML_EXTENSIONS.has(extension) || /^(?:﻿)?<(?:!doctype html|html|head|body)\b/.test(head)) return "html";
+  if (MARKDOWN_EXTENSIONS.has(extension)) return "markdown";
+  return "text";
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  sect: "§",
+  hellip: "…",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+const BLOCK_TAGS = /<\/?(?:p|div|br|li|ul|ol|h[1-6]|tr|table|section|article|header|footer|blockquote|pre|title)\b[^>]*>/gi;
+
+/** Visible text of an HTML page, one line per block element */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(BLOCK_TAGS, "\n")
+    .replace(/<[^>]+>/g, " ");
+
+  return decodeEntities(text)
+    .replace(/[ \t\f\v ]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Markdown with the markup removed: links keep their text, emphasis and headings their words */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^\s*(?:```|~~~).*$/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^ {0,3}#{1,6}\s+/gm, "")
+    .replace(/^ {0,3}>\s?/gm, "")
+    .replace(/^ {0,3}([-*_])(?:\s*\1){2,}\s*$/gm, "")
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, "$2")
+    .replace(/(?<![\w*])\*(\S(?:.*?\S)?)\*(?![\w*])/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  // Loaded on demand so only the upload route pulls in PDF.js
+  const { extractText } = await import("unpdf");
+  const { totalPages, text } = await extractText(new Uint8Array(buffer), { mergePages: false });
+  return {
+    type: "pdf",
+    pages: text.map((pageText, index) => ({ text: pageText.trim(), page: index + 1 })).filter((page) => page.text),
+    totalPages,
+  };
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const mammoth = await import("mammoth");
+  const { value } = await mammoth.extractRawText({ buffer });
+  return { type: "docx", pages: [{ text: value.trim() }] };
+}
+
+/**
+ * Extract the text of an uploaded file. Throws UnsupportedDocumentError for
+ * formats that are not handled; a document without any text (e.g. a scanned
+ * PDF) comes back with no pages.
+ */
+export async function extractDocument(buffer: Buffer, fileName: string): Promise<ExtractedDocument> {
+  const type = detectDocumentType(buffer, fileName);
+  if (type === "pdf") return extractPdf(buffer);
+  if (type === "docx") return extractDocx(buffer);
+
+  const raw = buffer.toString("utf8").replace(/^﻿/, "");
+  const text = type === "html" ? htmlToText(raw) : type === "markdown" ? markdownToText(raw) : raw.trim();
+  return { type, pages: text ? [{ text }] : [] };
+}
@@ -0,0 +1,67 @@
+/**
+ * Ingestion library shared by the indexing CLI, the background indexing jobs
+ * and /api/upload: source loaders (or document extraction for uploads) ->
+ * chunker -> embed + upsert pipeline, with retries, rate limiting and a
+ * dead-letter list for failed batches.
+ */
+
+export * from "./types";
+export { CSV_SOURCES, CsvSchemaError, parseCsvSource } from "./csv-schema";
+export type { CsvSource, CsvSection } from "./csv-schema";
+export { parseStatute, formatActTitle } from "./statutes";
+export type { StatuteSection } from "./statutes";
+export { DATASET_PATH, createCsvLoader, createStatuteLoader, defaultLoaders, loadSections } from "./sources";
+export {
+  DEFAULT_CHUNK_SIZE,
+  chunkLegalSections,
+  chunkText,
+  clauseMetadata,
+  parseLegalUnits,
+  sectionText,
+  splitLegalText,
+} from "./chunker";
+export type { ChunkOptions, ClauseType, LegalChunk, LegalUnit } from "./chunker";
+export {
+  DEFAULT_BATCH_SIZE,
+  METADATA_TEXT_LIMIT,
+  clearIndexes,
+  clearNamespace,
+  removeChunks,
+  replayDeadLetters,
+  upsertChunks,
+} from "./pipeline";
+export type { UpsertOptions, UpsertResult } from "./pipeline";
+export {
+  applyDiff,
+  currentEmbeddingModel,
+  diffManifest,
+  formatDiff,
+  hashChunk,
+  loadManifest,
+  manifestPath,
+  removeManifest,
+  saveManifest,
+} from "./manifest";
+export type { IndexManifest, ManifestDiff, ManifestEntry } from "./manifest";
+export { addDeadLetters, deadLetterPath, loadDeadLetters, removeDeadLetters } from "./dead-letter";
+export type { DeadLetter } from "./dead-letter";
+export {
+  RetryError,
+  TokenBudget,
+  backoffDelay,
+  isRetryable,
+  retryAfterMs,
+  runConcurrently,
+  withRetry,
+} from "./executor";
+export type { RetryOptions } from "./executor";
+export {
+  UnsupportedDocumentError,
+  detectDocumentType,
+  extractDocument,
+  htmlToText,
+  markdownToText,
+} from "./extract";
+export type { DocumentType, ExtractedDocument, ExtractedPage } from "./extract";
+export { IndexJobManager, IndexJobStateError, getIndexJobs } from "./jobs";
+export type { IndexJob, IndexJobPhase } from "./jobs";
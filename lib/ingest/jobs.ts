@@ -0,0 +1,323 @@
+/**
+ * Background indexing jobs for the dataset: POST /api/pinecone/index enqueues
+ * a job and returns at once, and an in-process worker runs queued jobs one at
+ * a time in checkpointed slices of chunks. Like the CLI, a job only embeds
+ * chunks that are new or changed according to the index manifest. Job state is persisted as one JSON
+ * file per job under INDEX_JOBS_DIR (default data/jobs), so a cancelled,
+ * failed or interrupted job resumes from its last checkpoint.
+ *
+ * The worker lives in the Node.js server process; it needs a long-running
+ * server (`next start`), not a serverless function that stops after responding.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { getVectorStore } from "../vectorstore";
+import { indexLogger } from "../logger";
+import { chunkLegalSections } from "./chunker";
+import { applyDiff, currentEmbeddingModel, diffManifest, formatDiff, loadManifest, saveManifest } from "./manifest";
+import { clearIndexes, DEFAULT_BATCH_SIZE, removeChunks, upsertChunks } from "./pipeline";
+import { defaultLoaders, loadSections } from "./sources";
+
+export type IndexJobPhase =
+  | "queued"
+  | "loading"
+  | "indexing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type IndexJob = {
+  id: string;
+  phase: IndexJobPhase;
+  clearExisting: boolean;
+  // Set once the indexes were cleared, so a resumed job does not clear them again
+  cleared: boolean;
+  totalDocuments: number;
+  // Chunks to embed: those added or updated since the manifest was written
+  totalChunks: number;
+  changes?: { added: number; updated: number; removed: number; unchanged: number };
+  // Chunks attempted so far; a resumed job continues from here
+  processedChunks: number;
+  failedChunks: number;
+  // Left out of the manifest so the next run retries them
+  failedChunkIds: string[];
+  errors: string[];
+  etaSeconds?: number;
+  message?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+};
+
+/** Thrown when cancel or resume is requested for a job in the wrong phase */
+export class IndexJobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexJobStateError";
+  }
+}
+
+// Chunks upserted between checkpoints (job file written, stores flushed)
+const CHECKPOINT_CHUNKS = 500;
+// Batch error messages kept on the job
+const MAX_JOB_ERRORS = 50;
+
+const ACTIVE_PHASES: IndexJobPhase[] = ["loading", "indexing"];
+const RESUMABLE_PHASES: IndexJobPhase[] = ["failed", "cancelled"];
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export class IndexJobManager {
+  private jobs = new Map<string, IndexJob>();
+  private loaded = false;
+  private running: { id: string; controller: AbortController } | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Read persisted jobs on first use. Jobs left active by a previous process
+   * were interrupted, so they are marked failed and can be resumed.
+   */
+  private load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!fs.existsSync(this.directory)) return;
+
+    for (const file of fs.readdirSync(this.directory).filter((name) => name.endsWith(".json"))) {
+      try {
+        const job = JSON.parse(fs.readFileSync(path.join(this.directory, file), "utf-8")) as IndexJob;
+        if (ACTIVE_PHASES.includes(job.phase)) {
+          job.phase = "failed";
+          job.message = "Interrupted by a server restart; resume to continue";
+          job.etaSeconds = undefined;
+        }
+        this.jobs.set(job.id, job);
+      } catch (error) {
+        indexLogger.warn(`Skipping unreadable job file: ${file}`, { error: String(error) });
+      }
+    }
+  }
+
+  private async save(job: IndexJob) {
+    job.updatedAt = new Date().toISOString();
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const target = path.join(this.directory, `${job.id}.json`);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(job, null, 2), "utf-8");
+    await fs.promises.rename(temp, target);
+  }
+
+  list(): IndexJob[] {
+    this.load();
+    return [...this.jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  get(id: string): IndexJob | null {
+    this.load();
+    return ID_PATTERN.test(id) ? this.jobs.get(id) ?? null : null;
+  }
+
+  async enqueue(options: { clearExisting?: boolean } = {}): Promise<IndexJob> {
+    this.load();
+    const now = new Date().toISOString();
+    const job: IndexJob = {
+      id: randomUUID(),
+      phase: "queued",
+      clearExisting: options.clearExisting === true,
+      cleared: false,
+      totalDocuments: 0,
+      totalChunks: 0,
+      processedChunks: 0,
+      failedChunks: 0,
+      failedChunkIds: [],
+      errors: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    await this.save(job);
+    indexLogger.info("Indexing job queued", { jobId: job.id, clearExisting: job.clearExisting });
+
+    this.pump();
+    return job;
+  }
+
+  async cancel(id: string): Promise<IndexJob | null> {
+    const job = this.get(id);
+    if (!job) return null;
+
+    if (this.running?.id === id) {
+      // The worker notices before its next batch and records the cancellation
+      this.running.controller.abort();
+      job.message = "Cancelling…";
+      return job;
+    }
+    if (job.phase !== "queued") {
+      throw new IndexJobStateError(`Job is ${job.phase} and cannot be cancelled`);
+    }
+
+    job.phase = "cancelled";
+    job.finishedAt = new Date().toISOString();
+    await this.save(job);
+    return job;
+  }
+
+  async resume(id: string): Promise<IndexJob | null> {
+    const job = this.get(id);
+    if (!job) return null;
+    if (!RESUMABLE_PHASES.includes(job.phase)) {
+      throw new IndexJobStateError(`Job is ${job.phase} and cannot be resumed`);
+    }
+
+    job.phase = "queued";
+    job.message = undefined;
+    job.finishedAt = undefined;
+    await this.save(job);
+    indexLogger.info("Indexing job resumed", { jobId: id, processedChunks: job.processedChunks });
+
+    this.pump();
+    return job;
+  }
+
+  /** Start the next queued job unless one is already running */
+  private pump() {
+    if (this.running) return;
+    const next = this.list()
+      .filter((job) => job.phase === "queued")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+    if (!next) return;
+
+    const controller = new AbortController();
+    this.running = { id: next.id, controller };
+    this.run(next, controller.signal)
+      .catch((error) => indexLogger.error("Indexing job crashed", { jobId: next.id, error: String(error) }))
+      .finally(() => {
+        this.running = null;
+        this.pump();
+      });
+  }
+
+  private async run(job: IndexJob, signal: AbortSignal) {
+    const runStart = Date.now();
+    job.startedAt ??= new Date(runStart).toISOString();
+
+    try {
+      job.phase = "loading";
+      await this.save(job);
+
+      if (job.clearExisting && !job.cleared) {
+        indexLogger.info("Clearing existing vectors for indexing job", { jobId: job.id });
+        await clearIndexes();
+        job.cleared = true;
+      }
+
+      // Loaders read files in sorted order and the manifest is only written when a
+      // job completes, so the pending chunk list and a resume offset are stable
+      const sections = await loadSections(defaultLoaders());
+      const embeddingModel = currentEmbeddingModel();
+      const manifest = await loadManifest();
+      const diff = diffManifest(manifest, chunkLegalSections(sections), embeddingModel);
+      const chunks = [...diff.added, ...diff.updated];
+      job.totalDocuments = sections.length;
+      job.totalChunks = chunks.length;
+      job.changes = {
+        added: diff.added.length,
+        updated: diff.updated.length,
+        removed: diff.removed.length,
+        unchanged: diff.unchanged,
+      };
+      job.phase = "indexing";
+      await this.save(job);
+
+      const resumedFrom = job.processedChunks;
+      indexLogger.info("Indexing job started", {
+        jobId: job.id,
+        changes: formatDiff(diff),
+        resumedFrom
+      });
+
+      while (job.processedChunks < chunks.length) {
+        const offset = job.processedChunks;
+        const failedBefore = job.failedChunks;
+        const slice = chunks.slice(offset, offset + CHECKPOINT_CHUNKS);
+
+        const result = await upsertChunks(slice, {
+          batchSize: DEFAULT_BATCH_SIZE,
+          signal,
+          // Dead-lettered batches count as processed as soon as they fail, not only at the checkpoint
+          onProgress: ({ processed, indexed }) => {
+            job.processedChunks = offset + processed;
+            job.failedChunks = failedBefore + processed - indexed;
+            job.etaSeconds = estimateEta(job, resumedFrom, runStart);
+          },
+        });
+
+        job.processedChunks = offset + result.processed;
+        job.failedChunks = failedBefore + result.processed - result.indexed;
+        job.failedChunkIds = [...job.failedChunkIds, ...result.failedIds];
+        job.errors = [...job.errors, ...result.errors].slice(-MAX_JOB_ERRORS);
+        job.etaSeconds = estimateEta(job, resumedFrom, runStart);
+        await getVectorStore().flush();
+        await this.save(job);
+
+        if (result.aborted) {
+          job.phase = "cancelled";
+          job.message = `Cancelled after ${job.processedChunks}/${job.totalChunks} chunks`;
+          job.etaSeconds = undefined;
+          job.finishedAt = new Date().toISOString();
+          await this.save(job);
+          indexLogger.warn("Indexing job cancelled", { jobId: job.id, processedChunks: job.processedChunks });
+          return;
+        }
+      }
+
+      await removeChunks(diff.removed);
+      await getVectorStore().flush();
+      await saveManifest(applyDiff(manifest, diff, embeddingModel, job.failedChunkIds));
+
+      job.phase = "completed";
+      job.message = job.failedChunks
+        ? `${formatDiff(diff)}; ${job.failedChunks} chunks failed and were added to the dead-letter list`
+        : formatDiff(diff);
+      job.etaSeconds = undefined;
+      job.finishedAt = new Date().toISOString();
+      await this.save(job);
+      indexLogger.info("Indexing job completed", {
+        jobId: job.id,
+        totalChunks: job.totalChunks,
+        failedChunks: job.failedChunks,
+        duration: `${Date.now() - runStart}ms`
+      });
+    } catch (error) {
+      job.phase = "failed";
+      job.message = error instanceof Error ? error.message : String(error);
+      job.etaSeconds = undefined;
+      job.finishedAt = new Date().toISOString();
+      await this.save(job);
+      indexLogger.error("Indexing job failed", { jobId: job.id, error: String(error) });
+    }
+  }
+}
+
+/** Seconds left at the throughput of the current run */
+function estimateEta(job: IndexJob, resumedFrom: number, runStart: number): number | undefined {
+  const done = job.processedChunks - resumedFrom;
+  if (done <= 0) return undefined;
+  const perChunkMs = (Date.now() - runStart) / done;
+  return Math.round(((job.totalChunks - job.processedChunks) * perChunkMs) / 1000);
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) shares one worker
+const globalForJobs = globalThis as unknown as { indexJobs?: IndexJobManager };
+
+export function getIndexJobs(): IndexJobManager {
+  if (!globalForJobs.indexJobs) {
+    globalForJobs.indexJobs = new IndexJobManager(
+      process.env.INDEX_JOBS_DIR || path.join(process.cwd(), "data", "jobs"),
+    );
+  }
+  return globalForJobs.indexJobs;
+}
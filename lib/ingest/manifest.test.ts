@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { applyDiff, diffManifest, formatDiff, hashChunk, IndexManifest } from "./manifest";
+import { IngestChunk } from "./types";
+
+const MODEL = "openai:text-embedding-3-small";
+
+function chunk(id: string, text: string): IngestChunk {
+  return { id, text, metadata: { act: "BNS", section: id } };
+}
+
+describe("hashChunk", () => {
+  it("changes with the text and metadata but not the metadata key order", () => {
+    const base = chunk("103", "Punishment for murder");
+    expect(hashChunk({ ...base, metadata: { section: "103", act: "BNS" } })).toBe(hashChunk(base));
+    expect(hashChunk({ ...base, text: "Punishment for culpable homicide" })).not.toBe(hashChunk(base));
+    expect(hashChunk({ ...base, metadata: { ...base.metadata, title: "Murder" } })).not.toBe(hashChunk(base));
+  });
+});
+
+describe("diffManifest", () => {
+  const kept = chunk("101", "Murder");
+  const edited = chunk("103", "Punishment for murder");
+  const manifest: IndexManifest = {
+    version: 1,
+    entries: {
+      "101": { hash: hashChunk(kept), embeddingModel: MODEL },
+      "103": { hash: hashChunk(chunk("103", "old text")), embeddingModel: MODEL },
+      "999": { hash: "gone", embeddingModel: MODEL },
+    },
+  };
+
+  it("sorts chunks into added, updated, removed and unchanged", () => {
+    const added = chunk("104", "Punishment for murder by life-convict");
+    const diff = diffManifest(manifest, [kept, edited, added], MODEL);
+
+    expect(diff.added).toEqual([added]);
+    expect(diff.updated).toEqual([edited]);
+    expect(diff.removed).toEqual(["999"]);
+    expect(diff.unchanged).toBe(1);
+    expect(formatDiff(diff)).toBe("1 added, 1 updated, 1 removed, 1 unchanged");
+  });
+
+  it("re-embeds every chunk when the embedding model changes", () => {
+    const diff = diffManifest(manifest, [kept], "fake:hash-embedding");
+    expect(diff.updated).toEqual([kept]);
+    expect(diff.unchanged).toBe(0);
+  });
+
+  it("records applied changes and leaves failed chunks to the next run", () => {
+    const added = chunk("104", "Punishment for murder by life-convict");
+    const diff = diffManifest(manifest, [kept, edited, added], MODEL);
+    const next = applyDiff(manifest, diff, MODEL, ["103"]);
+
+    expect(Object.keys(next.entries).sort()).toEqual(["101", "103", "104"]);
+    expect(next.entries["103"]).toEqual(manifest.entries["103"]);
+    expect(next.entries["104"]).toEqual({ hash: hashChunk(added), embeddingModel: MODEL });
+    expect(diffManifest(next, [kept, edited, added], MODEL).updated).toEqual([edited]);
+  });
+});
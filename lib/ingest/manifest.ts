@@ -0,0 +1,113 @@
+/**
+ * Index manifest: chunk id -> content hash and embedding model for every
+ * dataset chunk in the indexes, stored as JSON next to them
+ * (INDEX_MANIFEST_PATH, default data/index-manifest.json). Diffing freshly
+ * chunked sections against it lets a re-index embed only new or changed
+ * chunks and delete the vectors of removed ones.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { getEmbeddingModelConfig } from "../env";
+import { IngestChunk } from "./types";
+
+export type ManifestEntry = {
+  hash: string;
+  embeddingModel: string;
+};
+
+export type IndexManifest = {
+  version: 1;
+  updatedAt?: string;
+  entries: Record<string, ManifestEntry>;
+};
+
+export type ManifestDiff = {
+  added: IngestChunk[];
+  // Content or embedding model changed since the chunk was indexed
+  updated: IngestChunk[];
+  removed: string[];
+  unchanged: number;
+};
+
+export function manifestPath(): string {
+  return process.env.INDEX_MANIFEST_PATH || path.join(process.cwd(), "data", "index-manifest.json");
+}
+
+/** Provider and model, so switching either re-embeds every chunk */
+export function currentEmbeddingModel(): string {
+  const { embeddingProvider, embeddingModel } = getEmbeddingModelConfig();
+  return `${embeddingProvider}:${embeddingModel}`;
+}
+
+/** Hash of the text and metadata that end up in the vector record */
+export function hashChunk(chunk: IngestChunk): string {
+  const metadata = Object.keys(chunk.metadata)
+    .sort()
+    .map((key) => [key, chunk.metadata[key]]);
+  return createHash("sha256").update(JSON.stringify([chunk.text, metadata])).digest("hex");
+}
+
+export async function loadManifest(filePath = manifestPath()): Promise<IndexManifest> {
+  if (!fs.existsSync(filePath)) return { version: 1, entries: {} };
+  return JSON.parse(await fs.promises.readFile(filePath, "utf-8")) as IndexManifest;
+}
+
+export async function saveManifest(manifest: IndexManifest, filePath = manifestPath()): Promise<void> {
+  manifest.updatedAt = new Date().toISOString();
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(manifest), "utf-8");
+  await fs.promises.rename(temp, filePath);
+}
+
+export async function removeManifest(filePath = manifestPath()): Promise<void> {
+  await fs.promises.rm(filePath, { force: true });
+}
+
+export function diffManifest(manifest: IndexManifest, chunks: IngestChunk[], embeddingModel: string): ManifestDiff {
+  const diff: ManifestDiff = { added: [], updated: [], removed: [], unchanged: 0 };
+  const current = new Set<string>();
+
+  for (const chunk of chunks) {
+    current.add(chunk.id);
+    const entry = manifest.entries[chunk.id];
+    if (!entry) {
+      diff.added.push(chunk);
+    } else if (entry.hash !== hashChunk(chunk) || entry.embeddingModel !== embeddingModel) {
+      diff.updated.push(chunk);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed = Object.keys(manifest.entries).filter((id) => !current.has(id));
+  return diff;
+}
+
+/**
+ * Record an applied diff. Chunks listed in `failedIds` are left as they
+ * were, so the next run tries them again.
+ */
+export function applyDiff(
+  manifest: IndexManifest,
+  diff: ManifestDiff,
+  embeddingModel: string,
+  failedIds: Iterable<string> = [],
+): IndexManifest {
+  const failed = new Set(failedIds);
+  const entries = { ...manifest.entries };
+
+  for (const id of diff.removed) delete entries[id];
+  for (const chunk of [...diff.added, ...diff.updated]) {
+    if (failed.has(chunk.id)) continue;
+    entries[chunk.id] = { hash: hashChunk(chunk), embeddingModel };
+  }
+
+  return { ...manifest, entries };
+}
+
+export function formatDiff(diff: ManifestDiff): string {
+  return `${diff.added.length} added, ${diff.updated.length} updated, ${diff.removed.length} removed, ${diff.unchanged} unchanged`;
+}
@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { getVectorStore } from "../vectorstore";
+import { loadDeadLetters } from "./dead-letter";
+import { upsertChunks } from "./pipeline";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "pipeline-"));
+
+beforeAll(() => {
+  vi.stubEnv("LLM_PROVIDER", "fake");
+  vi.stubEnv("VECTOR_STORE", "local");
+  vi.stubEnv("LOCAL_VECTOR_STORE_PATH", path.join(directory, "vectors.json"));
+  vi.stubEnv("BM25_INDEX_PATH", path.join(directory, "bm25.json"));
+  vi.stubEnv("DEAD_LETTER_PATH", path.join(directory, "dead-letter.json"));
+  vi.stubEnv("INDEX_MAX_ATTEMPTS", "1");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("upsertChunks", () => {
+  it("reports failed batches in its progress as they are dead-lettered", async () => {
+    const store = getVectorStore();
+    const upsert = store.upsert.bind(store);
+    vi.spyOn(store, "upsert").mockImplementation((records, namespace) =>
+      records[0].id === "c" ? Promise.reject(new Error("invalid vector")) : upsert(records, namespace),
+    );
+
+    const chunks = ["a", "b", "c", "d"].map((id) => ({ id, text: `Section ${id} text`, metadata: { act: "BNS" } }));
+    const progress: { processed: number; indexed: number }[] = [];
+    const result = await upsertChunks(chunks, {
+      batchSize: 2,
+      concurrency: 1,
+      onProgress: ({ processed, indexed }) => progress.push({ processed, indexed }),
+    });
+
+    expect(progress).toEqual([
+      { processed: 2, indexed: 2 },
+      { processed: 4, indexed: 2 },
+    ]);
+    expect(result).toMatchObject({ processed: 4, indexed: 2, failedIds: ["c", "d"] });
+    expect((await loadDeadLetters()).map((entry) => entry.chunk.id)).toEqual(["c", "d"]);
+  });
+});
@@ -0,0 +1,241 @@
+import { embedTexts } from "../llm";
+import { DEFAULT_NAMESPACE, getVectorStore } from "../vectorstore";
+import { getLexicalIndex } from "../bm25";
+import { getEnvConfig } from "../env";
+import { indexLogger } from "../logger";
+import { addDeadLetters, DeadLetter, loadDeadLetters, removeDeadLetters } from "./dead-letter";
+import { estimateTokens } from "../conversation";
+import { getDocumentRegistry } from "../documents";
+import { RetryError, runConcurrently, TokenBudget, withRetry } from "./executor";
+import { applyDiff, currentEmbeddingModel, loadManifest, removeManifest, saveManifest } from "./manifest";
+import { IngestChunk } from "./types";
+
+export const DEFAULT_BATCH_SIZE = 50;
+export const METADATA_TEXT_LIMIT = 2000;
+
+export type UpsertOptions = {
+  batchSize?: number;
+  // Defaults to INDEX_CONCURRENCY
+  concurrency?: number;
+  // Abort on the first failed batch instead of recording it and moving on
+  stopOnError?: boolean;
+  // Called after every batch, including those that failed and went to the dead-letter list
+  onProgress?: (progress: { processed: number; indexed: number; total: number }) => void;
+  // Checked before each batch; once aborted, remaining batches are skipped
+  signal?: AbortSignal;
+  // Vector namespace (and lexical index) to write to; defaults to the shared corpus
+  namespace?: string;
+};
+
+export type UpsertResult = {
+  indexed: number;
+  // Chunks attempted, including those in failed batches
+  processed: number;
+  errors: string[];
+  // Ids of the chunks in failed batches
+  failedIds: string[];
+  aborted?: boolean;
+};
+
+// Shared by every upsert in the process so concurrent uploads and jobs stay inside one budget
+let _embeddingBudget: TokenBudget | null = null;
+
+function getEmbeddingBudget(): TokenBudget {
+  if (!_embeddingBudget) {
+    _embeddingBudget = new TokenBudget(getEnvConfig().indexing.embeddingTokensPerMinute);
+  }
+  return _embeddingBudget;
+}
+
+/**
+ * Embed chunks and upsert them into the vector store in batches, adding the
+ * same chunks to the BM25 lexical index. Batches run INDEX_CONCURRENCY at a
+ * time and transient failures are retried with backoff; chunks of batches
+ * that still fail are added to the dead-letter list.
+ */
+export async function upsertChunks(chunks: IngestChunk[], options: UpsertOptions = {}): Promise<UpsertResult> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const { concurrency, maxAttempts } = getEnvConfig().indexing;
+  const errors: string[] = [];
+  const failedIds: string[] = [];
+  const deadLetters: DeadLetter[] = [];
+  let stopError: unknown;
+  let indexed = 0;
+  let processed = 0;
+
+  if (!chunks.length) {
+    indexLogger.warn("No chunks provided for indexing");
+    return { indexed, processed, errors, failedIds };
+  }
+
+  const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+  const store = getVectorStore();
+  const lexicalIndex = getLexicalIndex(namespace);
+  const budget = getEmbeddingBudget();
+  indexLogger.info(`Starting to index ${chunks.length} chunks`, { provider: store.provider, namespace });
+
+  const batches: IngestChunk[][] = [];
+  for (let i = 0; i < chunks.length; i += batchSize) {
+    batches.push(chunks.slice(i, i + batchSize));
+  }
+
+  const retryOptions = (label: string) => ({
+    maxAttempts,
+    label,
+    onRetry: (error: unknown, attempt: number, delayMs: number) =>
+      indexLogger.warn(`${label} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delayMs}ms`, {
+        error: String(error)
+      }),
+  });
+
+  const started = await runConcurrently(
+    batches,
+    options.concurrency ?? concurrency,
+    async (batch, index) => {
+      const batchNum = index + 1;
+      try {
+        indexLogger.debug(`Generating embeddings for batch ${batchNum} (${batch.length} chunks)`);
+        const texts = batch.map((chunk) => chunk.text);
+        const tokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+        const embeddings = await withRetry(async () => {
+          await budget.acquire(tokens);
+          return embedTexts(texts);
+        }, retryOptions(`Embedding batch ${batchNum}`));
+
+        const vectors = batch.map((chunk, idx) => ({
+          id: chunk.id,
+          values: embeddings[idx],
+          metadata: {
+            ...chunk.metadata,
+            text: chunk.text.substring(0, METADATA_TEXT_LIMIT),
+          },
+        }));
+
+        await withRetry(() => store.upsert(vectors, namespace), retryOptions(`Upserting batch ${batchNum}`));
+        lexicalIndex.add(vectors.map((vector, idx) => ({ id: vector.id, text: batch[idx].text, metadata: vector.metadata })));
+        indexed += batch.length;
+        processed += batch.length;
+
+        indexLogger.info(`Indexed ${indexed}/${chunks.length} chunks`);
+        options.onProgress?.({ processed, indexed, total: chunks.length });
+      } catch (error) {
+        const attempts = error instanceof RetryError ? error.attempts : 1;
+        const errorMsg = error instanceof RetryError
+          ? `${error.message} (${batch.length} chunks)`
+          : `Failed to index batch ${batchNum} (${batch.length} chunks): ${error}`;
+        indexLogger.error(errorMsg, { error: String(error) });
+        processed += batch.length;
+        errors.push(errorMsg);
+        failedIds.push(...batch.map((chunk) => chunk.id));
+        const failedAt = new Date().toISOString();
+        deadLetters.push(
+          ...batch.map((chunk) => ({
+            chunk,
+            ...(namespace === DEFAULT_NAMESPACE ? {} : { namespace }),
+            error: errorMsg,
+            attempts,
+            failedAt,
+          })),
+        );
+        options.onProgress?.({ processed, indexed, total: chunks.length });
+        if (options.stopOnError) stopError ??= error;
+      }
+    },
+    () => Boolean(options.signal?.aborted) || stopError !== undefined,
+  );
+
+  // Keep the lexical index in step with the batches that did reach the vector store
+  await lexicalIndex.flush();
+  await addDeadLetters(deadLetters);
+  if (stopError !== undefined) throw stopError;
+
+  if (errors.length > 0) {
+    indexLogger.warn(`Indexing completed with ${errors.length} failed batch(es)`, {
+      errors,
+      deadLettered: deadLetters.length
+    });
+  }
+
+  if (started < batches.length) {
+    indexLogger.warn(`Indexing aborted after ${processed}/${chunks.length} chunks`);
+    return { indexed, processed, errors, failedIds, aborted: true };
+  }
+  return { indexed, processed, errors, failedIds };
+}
+
+/**
+ * Re-index the chunks on the dead-letter list. Chunks that go through are
+ * removed from the list (and dataset chunks recorded in the manifest); the
+ * rest are dead-lettered again with their latest error.
+ */
+export async function replayDeadLetters(): Promise<{ replayed: number; failed: number }> {
+  const entries = await loadDeadLetters();
+  if (!entries.length) {
+    indexLogger.info("Dead-letter list is empty, nothing to replay");
+    return { replayed: 0, failed: 0 };
+  }
+
+  indexLogger.info(`Replaying ${entries.length} dead-lettered chunks`);
+  const byNamespace = new Map<string, IngestChunk[]>();
+  for (const entry of entries) {
+    const namespace = entry.namespace ?? DEFAULT_NAMESPACE;
+    byNamespace.set(namespace, [...(byNamespace.get(namespace) ?? []), entry.chunk]);
+  }
+
+  let replayedCount = 0;
+  let failedCount = 0;
+  for (const [namespace, chunks] of byNamespace) {
+    const result = await upsertChunks(chunks, { namespace });
+    await getVectorStore().flush();
+
+    const failed = new Set(result.failedIds);
+    const replayed = chunks.filter((chunk) => !failed.has(chunk.id));
+    await removeDeadLetters(replayed.map((chunk) => chunk.id), namespace);
+    replayedCount += replayed.length;
+    failedCount += failed.size;
+
+    const datasetChunks = replayed.filter((chunk) => chunk.metadata.source === "legal_dataset");
+    if (datasetChunks.length) {
+      const embeddingModel = currentEmbeddingModel();
+      const diff = { added: datasetChunks, updated: [], removed: [], unchanged: 0 };
+      await saveManifest(applyDiff(await loadManifest(), diff, embeddingModel));
+    }
+  }
+
+  return { replayed: replayedCount, failed: failedCount };
+}
+
+/**
+ * Delete chunks by id from both the vector store and the lexical index.
+ */
+export async function removeChunks(ids: string[], namespace: string = DEFAULT_NAMESPACE): Promise<void> {
+  if (!ids.length) return;
+  await getVectorStore().deleteIds(ids, namespace);
+  const lexicalIndex = getLexicalIndex(namespace);
+  lexicalIndex.remove(ids);
+  await lexicalIndex.flush();
+  indexLogger.info(`Removed ${ids.length} chunks from the indexes`, { namespace });
+}
+
+/**
+ * Empty one namespace: its vectors, its lexical index, its dead-lettered
+ * chunks and the uploaded files recorded for it.
+ */
+export async function clearNamespace(namespace: string): Promise<void> {
+  await getVectorStore().deleteAll(namespace);
+  const lexicalIndex = getLexicalIndex(namespace);
+  lexicalIndex.clear();
+  await lexicalIndex.flush();
+  await removeDeadLetters("all", namespace);
+  await getDocumentRegistry().clear(namespace);
+}
+
+/**
+ * Remove the shared corpus from both the vector store and the lexical index,
+ * and drop the manifest so the next run indexes everything again. Workspace
+ * namespaces are left alone.
+ */
+export async function clearIndexes(): Promise<void> {
+  await clearNamespace(DEFAULT_NAMESPACE);
+  await removeManifest();
+}
@@ -0,0 +1,153 @@
+import * as fs from "fs";
+import * as path from "path";
+import { indexLogger } from "../logger";
+import { CSV_SOURCES, CsvSchemaError, CsvSection, CsvSource, parseCsvSource } from "./csv-schema";
+import { parseStatute, StatuteSection } from "./statutes";
+import { LegalSection, SourceLoader } from "./types";
+
+export const DATASET_PATH = path.join(process.cwd(), "dataset");
+
+function fromCsvSection(row: CsvSection): LegalSection {
+  const details = [
+    row.offense && `Offence: ${row.offense}`,
+    row.punishment && `Punishment: ${row.punishment}`,
+  ].filter(Boolean);
+
+  return {
+    id: row.id,
+    act: row.act,
+    section: row.section,
+    title: row.title,
+    description: row.description,
+    text: details.length ? details.join("\n") : undefined,
+    chapter: row.chapter,
+    chapterName: row.chapterName,
+    offense: row.offense,
+    punishment: row.punishment,
+  };
+}
+
+function fromStatuteSection(statute: StatuteSection): LegalSection {
+  return {
+    id: statute.id,
+    act: statute.act,
+    section: statute.section,
+    title: statute.heading,
+    description: "",
+    text: statute.text,
+    actNumber: statute.actNumber,
+    year: statute.year,
+    chapter: statute.chapter,
+    chapterName: statute.chapterName,
+  };
+}
+
+function loadCSVFile(filePath: string, source: CsvSource): LegalSection[] {
+  try {
+    indexLogger.info(`Loading CSV file: ${filePath}`);
+    const fileContent = fs.readFileSync(filePath, "utf-8");
+
+    const rows = parseCsvSource(fileContent, source);
+    const missingSections = rows.filter((row) => !row.section).length;
+    if (missingSections > 0) {
+      indexLogger.warn(`${missingSections} row(s) in ${source.file} have no section number`);
+    }
+
+    const sections = rows.map(fromCsvSection);
+
+    indexLogger.info(`Loaded ${sections.length} sections from ${source.act}`);
+    return sections;
+  } catch (error) {
+    if (error instanceof CsvSchemaError) {
+      indexLogger.error(`CSV headers do not match the ${source.act} column mapping`, error, {
+        file: error.file,
+        missingColumns: error.missingColumns,
+        foundColumns: error.foundColumns,
+      });
+    } else {
+      indexLogger.error(`Failed to load CSV file: ${filePath}`, { error: String(error) });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Loads the per-act CSV files described by CSV_SOURCES.
+ */
+export function createCsvLoader(datasetPath: string = DATASET_PATH, sources: CsvSource[] = CSV_SOURCES): SourceLoader {
+  return {
+    name: "csv",
+    async load() {
+      const sections: LegalSection[] = [];
+
+      for (const source of sources) {
+        const filePath = path.join(datasetPath, source.file);
+        if (fs.existsSync(filePath)) {
+          sections.push(...loadCSVFile(filePath, source));
+        } else {
+          indexLogger.warn(`CSV file not found: ${filePath}`);
+        }
+      }
+
+      return sections;
+    },
+  };
+}
+
+/**
+ * Loads the central-act JSON files, one LegalSection per "Section N." entry.
+ * `limit` caps the number of files read.
+ */
+export function createStatuteLoader(datasetPath: string = DATASET_PATH, options: { limit?: number } = {}): SourceLoader {
+  return {
+    name: "statutes",
+    async load() {
+      let jsonFiles = fs.readdirSync(datasetPath).filter((f) => f.endsWith(".json")).sort();
+      if (options.limit !== undefined) {
+        jsonFiles = jsonFiles.slice(0, options.limit);
+      }
+
+      const statutes: LegalSection[] = [];
+      let actCount = 0;
+
+      for (const file of jsonFiles) {
+        try {
+          const content = fs.readFileSync(path.join(datasetPath, file), "utf-8");
+          const sections = parseStatute(JSON.parse(content), file.replace(".json", ""));
+
+          if (!sections.length) {
+            indexLogger.warn(`No sections found in JSON file: ${file}`);
+            continue;
+          }
+
+          statutes.push(...sections.map(fromStatuteSection));
+          actCount++;
+        } catch (error) {
+          indexLogger.warn(`Failed to parse JSON file: ${file}`, { error: String(error) });
+        }
+      }
+
+      indexLogger.info(`Loaded ${statutes.length} sections from ${actCount} JSON statutes`);
+      return statutes;
+    },
+  };
+}
+
+/**
+ * Runs each loader in turn and concatenates their sections.
+ */
+export async function loadSections(loaders: SourceLoader[]): Promise<LegalSection[]> {
+  const sections: LegalSection[] = [];
+
+  for (const loader of loaders) {
+    const loaded = await loader.load();
+    indexLogger.debug(`Source loader "${loader.name}" returned ${loaded.length} sections`);
+    sections.push(...loaded);
+  }
+
+  return sections;
+}
+
+export function defaultLoaders(options: { statuteLimit?: number } = {}): SourceLoader[] {
+  return [createCsvLoader(), createStatuteLoader(DATASET_PATH, { limit: options.statuteLimit })];
+}
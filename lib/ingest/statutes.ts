@@ -0,0 +1,178 @@
+/**
+ * Parser for the central-act JSON files in dataset/
+ *
+ * Each file describes one act ("Act Title", "Act ID", "Enactment Date",
+ * "Act Definition") and its sections, which live either in a top-level
+ * "Sections" map or nested under "Chapters"/"Parts" (optionally split further
+ * into "Subheadings"). Every "Section N." entry carries a heading and a map of
+ * paragraphs, where a paragraph is a string or a { text, contains } node.
+ */
+
+export type StatuteSection = {
+  id: string;
+  act: string;
+  actNumber?: string;
+  year?: number;
+  section: string;
+  heading: string;
+  chapter?: string;
+  chapterName?: string;
+  text: string;
+};
+
+type ParagraphNode = string | { text?: string; contains?: Record<string, ParagraphNode> };
+
+type SectionEntry = {
+  heading?: string;
+  paragraphs?: Record<string, ParagraphNode>;
+};
+
+type SectionGroup = {
+  ID?: string;
+  Name?: string;
+  Sections?: Record<string, SectionEntry>;
+  Subheadings?: { Name?: string; Sections?: Record<string, SectionEntry> }[];
+  [key: string]: unknown;
+};
+
+type StatuteFile = {
+  "Act Title"?: string;
+  "Act ID"?: string;
+  "Enactment Date"?: string;
+  "Act Definition"?: Record<string, string>;
+  Sections?: Record<string, SectionEntry>;
+  Chapters?: Record<string, SectionGroup>;
+  Parts?: Record<string, SectionGroup>;
+};
+
+const SECTION_KEY = /^Section\s+([0-9]+[A-Z]*(?:-[A-Z0-9]+)?)\.?$/i;
+const LOWERCASE_WORDS = new Set(["a", "an", "and", "as", "at", "by", "for", "in", "of", "on", "or", "the", "to", "with"]);
+
+/**
+ * "THE FATAL ACCIDENTS ACT, 1855" -> "Fatal Accidents Act, 1855"
+ */
+export function formatActTitle(rawTitle: string): string {
+  const title = rawTitle
+    .replace(/\s*\((?:modified|as amended|as on)[^)]*\)\s*$/i, "")
+    .replace(/\s*last updated.*$/i, "")
+    .replace(/^THE\s+/i, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return title
+    .toLowerCase()
+    .split(" ")
+    .map((word, index) => {
+      if (index > 0 && LOWERCASE_WORDS.has(word)) return word;
+      // Roman numerals such as "V" in "ACT V OF 1882" stay upper-case
+      if (index > 0 && /^\(?[ivx]{1,4}\)?[,.]?$/.test(word)) {
+        return word.toUpperCase();
+      }
+      return word.replace(/^(\W*)(\w)/, (_, prefix: string, first: string) => prefix + first.toUpperCase());
+    })
+    .join(" ");
+}
+
+/**
+ * "ACT NO. 13 OF 1855" -> { actNumber: "13", year: 1855 }
+ */
+export function parseActId(rawId: string): { actNumber?: string; year?: number } {
+  const match = rawId.match(/(?:NO\.?|ACT)\s*(\d+[A-Z]?)\s*,?\s*OF\s*(\d{4})/i);
+  if (!match) return {};
+  return { actNumber: match[1], year: Number(match[2]) };
+}
+
+function extractYear(value: string | undefined): number | undefined {
+  const match = value?.match(/\b(1[6-9]\d{2}|20\d{2})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function flattenParagraph(node: ParagraphNode): string[] {
+  if (typeof node === "string") {
+    return node.trim() ? [node.trim()] : [];
+  }
+  if (!node || typeof node !== "object") return [];
+
+  const lines: string[] = [];
+  if (node.text?.trim()) lines.push(node.text.trim());
+  for (const child of Object.values(node.contains || {})) {
+    lines.push(...flattenParagraph(child));
+  }
+  return lines;
+}
+
+function collectSections(
+  entries: Record<string, unknown> | undefined,
+  chapter: { id?: string; name?: string },
+  out: { key: string; entry: SectionEntry; chapter: { id?: string; name?: string } }[],
+) {
+  for (const [key, value] of Object.entries(entries || {})) {
+    if (SECTION_KEY.test(key.trim()) && value && typeof value === "object") {
+      out.push({ key: key.trim(), entry: value as SectionEntry, chapter });
+    }
+  }
+}
+
+function collectGroups(
+  groups: Record<string, SectionGroup> | undefined,
+  out: { key: string; entry: SectionEntry; chapter: { id?: string; name?: string } }[],
+) {
+  for (const group of Object.values(groups || {})) {
+    const chapter = { id: group.ID?.trim(), name: group.Name?.trim() };
+    collectSections(group.Sections, chapter, out);
+    // Some chapters list their sections directly instead of under "Sections"
+    collectSections(group, chapter, out);
+    for (const subheading of group.Subheadings || []) {
+      collectSections(subheading.Sections, chapter, out);
+    }
+  }
+}
+
+/**
+ * Parse one act file into one StatuteSection per "Section N." entry.
+ * `fileId` is the file name without its extension and is used to build
+ * stable, unique vector ids.
+ */
+export function parseStatute(data: StatuteFile, fileId: string): StatuteSection[] {
+  const rawTitle = data["Act Title"]?.trim() || `Statute ${fileId}`;
+  const act = formatActTitle(rawTitle);
+  const { actNumber, year: idYear } = parseActId(data["Act ID"] || "");
+  const year = idYear ?? extractYear(data["Enactment Date"]) ?? extractYear(rawTitle);
+
+  const entries: { key: string; entry: SectionEntry; chapter: { id?: string; name?: string } }[] = [];
+  collectSections(data.Sections, {}, entries);
+  collectGroups(data.Chapters, entries);
+  collectGroups(data.Parts, entries);
+
+  const seenIds = new Map<string, number>();
+  const sections: StatuteSection[] = [];
+
+  for (const { key, entry, chapter } of entries) {
+    const section = key.match(SECTION_KEY)![1];
+    const text = Object.values(entry.paragraphs || {})
+      .flatMap(flattenParagraph)
+      .join("\n");
+    const heading = (entry.heading || "").trim().replace(/\.$/, "");
+
+    if (!text && !heading) continue;
+
+    // Repealed-and-reinserted sections occasionally appear twice under the same number
+    const baseId = `statute_${fileId}_s${section}`.replace(/[^A-Za-z0-9_-]/g, "_");
+    const occurrence = seenIds.get(baseId) || 0;
+    seenIds.set(baseId, occurrence + 1);
+
+    sections.push({
+      id: occurrence ? `${baseId}_${occurrence + 1}` : baseId,
+      act,
+      actNumber,
+      year,
+      section,
+      heading,
+      chapter: chapter.id,
+      chapterName: chapter.name,
+      text,
+    });
+  }
+
+  return sections;
+}
@@ -0,0 +1,35 @@
+/**
+ * Shared types for the ingestion pipeline
+ */
+
+export type LegalSection = {
+  id: string;
+  act: string;
+  section: string;
+  title: string;
+  description: string;
+  text?: string;
+  actNumber?: string;
+  year?: number;
+  chapter?: string;
+  chapterName?: string;
+  offense?: string;
+  punishment?: string;
+};
+
+export type ChunkMetadata = Record<string, string | number | boolean | string[]>;
+
+export type IngestChunk = {
+  id: string;
+  text: string;
+  metadata: ChunkMetadata;
+};
+
+/**
+ * A source of legal sections (CSV files, statute JSON files, ...).
+ * Loaders are registered with loadSections() and run in order.
+ */
+export type SourceLoader = {
+  name: string;
+  load(): Promise<LegalSection[]>;
+};
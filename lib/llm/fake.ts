@@ -0,0 +1,91 @@
+/**
+ * Deterministic offline models for tests and local development. Embeddings
+ * are hashed bag-of-words vectors, so texts sharing words are similar; chat
+ * replies are derived from the prompt, so the same input gives the same answer.
+ */
+
+import { estimateTokens } from "../conversation";
+import { ChatMessage, ChatModel, Completion, CompletionChunk, EmbeddingModel } from "./types";
+
+export const FAKE_EMBEDDING_DIMENSION = 256;
+
+function hashToken(token: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class FakeEmbeddingModel implements EmbeddingModel {
+  readonly provider = "fake";
+  readonly model = "fake-embedding";
+
+  constructor(private readonly dimension: number = FAKE_EMBEDDING_DIMENSION) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimension).fill(0);
+      for (const token of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        const hash = hashToken(token);
+        vector[hash % this.dimension] += hash & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map((value) => value / norm);
+    });
+  }
+}
+
+export class FakeChatModel implements ChatModel {
+  readonly provider = "fake";
+  readonly model = "fake-chat";
+
+  private reply(messages: ChatMessage[]): string {
+    const last = [...messages].reverse().find((message) => message.role === "user")?.content || "";
+
+    // Question-condensing prompts end with the latest message; return it unchanged
+    const latest = last.match(/Latest message:\s*([\s\S]+)$/);
+    if (latest) return latest[1].trim();
+
+    const [questionPart, contextPart = ""] = last.split(/CONTEXT FROM LEGAL SECTIONS:\n/);
+    const question = questionPart.split("\n")[0].replace(/^User question:\s*/, "").trim();
+    const headers = contextPart
+      .split(/\n\n---\n\n/)
+      .map((block) => block.split("\n")[0].trim())
+      .filter(Boolean);
+
+    return [
+      "### Relevant sections",
+      // Context headers start with their source marker; cite it after the header
+      ...(headers.length
+        ? headers.map((header) => `- ${header.replace(/^(\[\d+\])\s*(.*)$/, "$2 $1")}`)
+        : ["- No sections were provided."]),
+      "",
+      "### Explanation",
+      `This is a deterministic test answer for: ${question}`,
+      "",
+      "### Disclaimer",
+      "This is not formal legal advice.",
+    ].join("\n");
+  }
+
+  async complete(messages: ChatMessage[]): Promise<Completion> {
+    const content = this.reply(messages);
+    const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    const completionTokens = estimateTokens(content);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncIterable<CompletionChunk> {
+    const { content, usage } = await this.complete(messages);
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      yield { delta: piece };
+    }
+    yield { usage };
+  }
+}
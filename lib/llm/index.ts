@@ -0,0 +1,102 @@
+/**
+ * Chat and embedding model selection. LLM_PROVIDER picks the chat model and
+ * EMBEDDING_PROVIDER (defaulting to the same) the embedding model:
+ *  - "openai": the OpenAI API (OPENAI_API_KEY)
+ *  - "openai-compatible": any server speaking the OpenAI API at LLM_BASE_URL
+ *  - "fake": deterministic offline models for tests
+ */
+
+import OpenAI from "openai";
+import { getEnvConfig, LLMProvider } from "../env";
+import { createLogger } from "../logger";
+import { FakeChatModel, FakeEmbeddingModel } from "./fake";
+import { OpenAIChatModel, OpenAIEmbeddingModel } from "./openai";
+import { ChatModel, EmbeddingModel } from "./types";
+
+export * from "./types";
+export { FakeChatModel, FakeEmbeddingModel, FAKE_EMBEDDING_DIMENSION } from "./fake";
+export { OpenAIChatModel, OpenAIEmbeddingModel } from "./openai";
+
+const llmLogger = createLogger("LLM");
+
+const clients = new Map<LLMProvider, OpenAI>();
+
+function getClient(provider: Exclude<LLMProvider, "fake">): OpenAI {
+  let client = clients.get(provider);
+  if (!client) {
+    const config = getEnvConfig().llm;
+
+    if (provider === "openai" && !config.apiKey) {
+      llmLogger.fatal("OPENAI_API_KEY is not configured in the environment");
+      throw new Error("OPENAI_API_KEY is not configured in the environment.");
+    }
+
+    client =
+      provider === "openai"
+        ? new OpenAI({ apiKey: config.apiKey })
+        : // Local servers usually ignore the key, but the SDK requires one
+          new OpenAI({ apiKey: config.apiKey || "not-needed", baseURL: config.baseURL });
+    clients.set(provider, client);
+
+    llmLogger.info("Initialized OpenAI client", { provider, baseURL: config.baseURL });
+  }
+  return client;
+}
+
+let _chatModel: ChatModel | null = null;
+let _embeddingModel: EmbeddingModel | null = null;
+
+export function getChatModel(): ChatModel {
+  if (!_chatModel) {
+    const config = getEnvConfig().llm;
+    _chatModel =
+      config.provider === "fake"
+        ? new FakeChatModel()
+        : new OpenAIChatModel(getClient(config.provider), config.model, config.provider);
+    llmLogger.info("Chat model initialized", { provider: _chatModel.provider, model: _chatModel.model });
+  }
+  return _chatModel;
+}
+
+export function getEmbeddingModel(): EmbeddingModel {
+  if (!_embeddingModel) {
+    const config = getEnvConfig().llm;
+    _embeddingModel =
+      config.embeddingProvider === "fake"
+        ? new FakeEmbeddingModel()
+        : new OpenAIEmbeddingModel(getClient(config.embeddingProvider), config.embeddingModel, config.embeddingProvider);
+    llmLogger.info("Embedding model initialized", {
+      provider: _embeddingModel.provider,
+      model: _embeddingModel.model
+    });
+  }
+  return _embeddingModel;
+}
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  if (!texts.length) {
+    llmLogger.debug("No texts provided for embedding, returning empty array");
+    return [];
+  }
+
+  const model = getEmbeddingModel();
+  llmLogger.debug(`Generating embeddings for ${texts.length} text(s)`, {
+    model: model.model,
+    totalChars: texts.reduce((sum, text) => sum + text.length, 0)
+  });
+
+  try {
+    const startTime = Date.now();
+    const embeddings = await model.embed(texts);
+
+    llmLogger.info(`Generated ${embeddings.length} embeddings`, {
+      duration: `${Date.now() - startTime}ms`,
+      model: model.model
+    });
+
+    return embeddings;
+  } catch (error) {
+    llmLogger.error("Failed to generate embeddings", { error: String(error) });
+    throw error;
+  }
+}
@@ -0,0 +1,81 @@
+import OpenAI from "openai";
+import {
+  ChatMessage,
+  ChatModel,
+  ChatUsage,
+  Completion,
+  CompletionChunk,
+  CompletionOptions,
+  EmbeddingModel,
+} from "./types";
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): ChatUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Chat completions through the OpenAI SDK. Also serves OpenAI-compatible
+ * servers (Ollama, llama.cpp, vLLM, ...) when the client has a custom baseURL.
+ */
+export class OpenAIChatModel implements ChatModel {
+  constructor(
+    private readonly client: OpenAI,
+    readonly model: string,
+    readonly provider: string = "openai",
+  ) {}
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<Completion> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      messages,
+    });
+
+    return {
+      content: completion.choices?.[0]?.message?.content?.trim() || "",
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<CompletionChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      messages,
+      stream: true,
+      // Not every OpenAI-compatible server understands stream_options
+      ...(this.provider === "openai" ? { stream_options: { include_usage: true } } : {}),
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content || undefined;
+      const usage = toUsage(chunk.usage);
+      if (delta || usage) {
+        yield { delta, usage };
+      }
+    }
+  }
+}
+
+export class OpenAIEmbeddingModel implements EmbeddingModel {
+  constructor(
+    private readonly client: OpenAI,
+    readonly model: string,
+    readonly provider: string = "openai",
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return response.data.map((item) => item.embedding);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Provider-neutral chat and embedding model interfaces
+ */
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type CompletionOptions = {
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type Completion = {
+  content: string;
+  usage?: ChatUsage;
+};
+
+// A streamed piece of a completion; usage typically arrives on the last chunk
+export type CompletionChunk = {
+  delta?: string;
+  usage?: ChatUsage;
+};
+
+export interface ChatModel {
+  readonly provider: string;
+  readonly model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<Completion>;
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<CompletionChunk>;
+}
+
+export interface EmbeddingModel {
+  readonly provider: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,76 @@
+/**
+ * Numbered source markers ("[1]", "[2, 3]") that tie statements in an answer
+ * to the sources returned with it. Marker n refers to the nth source.
+ */
+
+export type MarkerCitation = {
+  marker: number;
+  sourceId: string;
+};
+
+export type MarkerValidation = {
+  // Answer with markers that match no source removed
+  answer: string;
+  // Valid markers in order of first use
+  citations: MarkerCitation[];
+  invalidMarkers: number[];
+};
+
+// "[1]" or "[1, 3]", but not a markdown link label such as "[1](...)"
+const MARKER_GROUP = /\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/g;
+
+function parseGroup(group: string): number[] {
+  return group.split(",").map((part) => Number(part.trim()));
+}
+
+/**
+ * Check every marker against the sources it may refer to: markers without a
+ * source are dropped from the answer and reported, the rest are mapped to
+ * source ids.
+ */
+export function validateMarkers(answer: string, sources: { id: string; marker?: number }[]): MarkerValidation {
+  const byMarker = new Map(sources.map((source, index) => [source.marker ?? index + 1, source.id]));
+  const citations = new Map<number, string>();
+  const invalid = new Set<number>();
+
+  const cleaned = answer.replace(new RegExp(`\\s?${MARKER_GROUP.source}`, "g"), (match, group: string) => {
+    const markers = parseGroup(group);
+    const valid = markers.filter((marker) => {
+      const sourceId = byMarker.get(marker);
+      if (!sourceId) {
+        invalid.add(marker);
+        return false;
+      }
+      if (!citations.has(marker)) citations.set(marker, sourceId);
+      return true;
+    });
+
+    if (valid.length === markers.length) return match;
+    const leading = match.startsWith("[") ? "" : match[0];
+    return valid.length ? `${leading}[${valid.join(", ")}]` : "";
+  });
+
+  return {
+    answer: cleaned,
+    citations: [...citations].map(([marker, sourceId]) => ({ marker, sourceId })),
+    invalidMarkers: [...invalid].sort((a, b) => a - b),
+  };
+}
+
+export type TextSegment = string | { markers: number[] };
+
+/** Split text into plain runs and marker groups, for rendering markers as chips */
+export function splitMarkers(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MARKER_GROUP)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push(text.slice(last, index));
+    segments.push({ markers: parseGroup(match[1]) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push(text.slice(last));
+
+  return segments;
+}
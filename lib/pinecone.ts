@@ -1,4 +1,4 @@
-import { Pinecone, PineconeRecord } from "@pinecone-database/pinecone";
+import { Pinecone } from "@pinecone-database/pinecone";
 import { getEnvConfig } from "./env";
 import { pineconeLogger } from "./logger";
 
@@ -44,35 +44,3 @@ export function getPineconeIndex() {
   const client = getPineconeClient();
   return client.index(indexName);
 }
-
-export async function checkPineconeConnection(): Promise<boolean> {
-  try {
-    const index = getPineconeIndex();
-    const stats = await index.describeIndexStats();
-    
-    pineconeLogger.info("Pinecone connection verified", {
-      totalVectors: stats.totalRecordCount,
-      dimension: stats.dimension,
-      indexFullness: stats.indexFullness
-    });
-    
-    return true;
-  } catch (error) {
-    pineconeLogger.error("Pinecone connection check failed", { error: String(error) });
-    return false;
-  }
-}
-
-export async function deleteAllVectors(): Promise<void> {
-  try {
-    const index = getPineconeIndex();
-    pineconeLogger.warn("Deleting all vectors from index");
-    
-    await index.deleteAll();
-    
-    pineconeLogger.info("Successfully deleted all vectors from index");
-  } catch (error) {
-    pineconeLogger.error("Failed to delete vectors from index", error);
-    throw error;
-  }
-}
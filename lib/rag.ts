@@ -1,18 +1,82 @@
-import { getOpenAIClient, CHAT_MODEL, EMBEDDING_MODEL, embedTexts } from "./openai";
-import { getPineconeIndex } from "./pinecone";
+import { ChatMessage, ChatUsage, embedTexts, getChatModel } from "./llm";
+import { getVectorStore, isVectorStoreConfigured, VectorMatch } from "./vectorstore";
+import { FusedMatch, hybridRetrieve, resolveWeights, RetrievalWeights, RetrieverHit } from "./hybrid";
+import { getReranker, selectReranked } from "./rerank";
+import { getEnvConfig } from "./env";
 import { ragLogger } from "./logger";
+import { ACTS, baseSection, resolveAct } from "./acts";
+import { CorrespondingSection, findCorrespondingSections } from "./concordance";
+import { formatCitation, parseCitations } from "./citations";
+import { lookupSection } from "./sections";
+import { ChatTurn, formatTranscript, trimHistory } from "./conversation";
+import { allowsStatuteAct, RetrievalFilters, toMetadataFilter } from "./filters";
+import { MarkerCitation, validateMarkers } from "./markers";
+import { GroundingContext, GroundingReport, verifyGrounding } from "./grounding";
+import { DEFAULT_WORKSPACE, searchNamespaces } from "./workspaces";
 
 export type SourceSnippet = {
   id: string;
+  // Number the answer cites this source by, as in "[1]"
+  marker?: number;
   act: string;
   section?: string;
   title?: string;
   snippet: string;
+  inForce?: boolean;
+  correspondsTo?: string[];
+  // Relevance in [0, 1] assigned by the reranker
+  rerankScore?: number;
+};
+
+/** Which retrievers surfaced a source, for debugging retrieval quality */
+export type SourceRetrieval = {
+  // "vector", "lexical", "citation" (exact lookup of a cited section) or "concordance"
+  retrievers: string[];
+  fusedScore?: number;
+  vector?: RetrieverHit;
+  lexical?: RetrieverHit;
+};
+
+export type RerankDebug = {
+  reranker: string;
+  minScore: number;
+  candidates: number;
+  // Candidates below minScore, and those cut to stay within the context limit
+  belowMinScore: number;
+  kept: number;
+};
+
+export type RetrievalDebug = {
+  weights: RetrievalWeights;
+  filters?: RetrievalFilters;
+  rerank?: RerankDebug;
+  sources: ({ id: string; act: string; section?: string; rerankScore?: number } & SourceRetrieval)[];
 };
 
 export type ChatResult = {
   answer: string;
   sources: SourceSnippet[];
+  // Follow-up rewritten into a self-contained query, when history changed it
+  standaloneQuestion?: string;
+  // Markers used in the answer and the sources they refer to
+  citations?: MarkerCitation[];
+  // Markers the model produced that match no source; removed from the answer
+  invalidMarkers?: number[];
+  // Whether the sections and claims in the answer are backed by the context
+  grounding?: GroundingReport;
+  // Present when requested with `debug: true`
+  debug?: RetrievalDebug;
+};
+
+export type AnswerOptions = {
+  history?: ChatTurn[];
+  // Per-request weights for fusing vector and lexical rankings
+  weights?: Partial<RetrievalWeights>;
+  // Restrict retrieval to acts, a chapter, or statutes vs uploaded files
+  filters?: RetrievalFilters;
+  // Uploads searched alongside the shared statute corpus; defaults to the default workspace
+  workspace?: string;
+  debug?: boolean;
 };
 
 type IndexedDoc = {
@@ -23,111 +87,378 @@ type IndexedDoc = {
   text: string;
   source: string;
   score?: number;
+  inForce?: boolean;
+  correspondsTo?: string[];
+  retrieval?: SourceRetrieval;
+  rerankScore?: number;
 };
 
+// Upper bound on extra old/new-code sections pulled in through the concordance
+const MAX_CONCORDANCE_DOCS = 4;
+// Upper bound on sections cited in the question that are fetched by exact lookup
+const MAX_CITED_SECTIONS = 3;
+// Retrieved documents placed in the prompt (before concordance additions)
+const MAX_CONTEXT_DOCS = 8;
+
 export async function initLegalIndex(): Promise<{
   indexed: boolean;
   indexedNow: boolean;
   totalDocs: number;
-  pineconeConfigured: boolean;
+  vectorStoreConfigured: boolean;
   vectorCount?: number;
 }> {
-  const pineconeConfigured = Boolean(process.env.PINECONE_API_KEY && process.env.PINECONE_INDEX);
+  const vectorStoreConfigured = isVectorStoreConfigured();
 
   let indexed = false;
   let vectorCount = 0;
 
-  if (pineconeConfigured) {
+  if (vectorStoreConfigured) {
     try {
-      const index = getPineconeIndex();
-      const stats = await index.describeIndexStats();
+      const store = getVectorStore();
+      const stats = await store.stats();
       indexed = true;
-      vectorCount = stats.totalRecordCount || 0;
+      vectorCount = stats.totalRecordCount;
       
-      ragLogger.info("Successfully connected to Pinecone index", {
-        index: process.env.PINECONE_INDEX,
+      ragLogger.info("Successfully connected to the vector store", {
+        provider: store.provider,
         vectorCount,
         dimension: stats.dimension,
         indexFullness: stats.indexFullness
       });
     } catch (error) {
-      ragLogger.error("Failed to read Pinecone index stats", { error: String(error) });
+      ragLogger.error("Failed to read vector store stats", { error: String(error) });
     }
   } else {
-    ragLogger.warn("Pinecone is not configured - vector search will not be available");
+    ragLogger.warn("Vector store is not configured - vector search will not be available");
   }
 
-  return { indexed, indexedNow: false, totalDocs: vectorCount, pineconeConfigured, vectorCount };
+  return { indexed, indexedNow: false, totalDocs: vectorCount, vectorStoreConfigured, vectorCount };
 }
 
-async function retrieveWithPinecone(question: string, limit: number): Promise<IndexedDoc[]> {
-  ragLogger.debug("Starting Pinecone retrieval", { 
-    question: question.substring(0, 100), 
-    limit 
+function toIndexedDoc(match: VectorMatch): IndexedDoc {
+  const metadata = (match.metadata || {}) as any;
+
+  const text =
+    (metadata.text as string) ||
+    (metadata.content as string) ||
+    (metadata.body as string) ||
+    "";
+
+  return {
+    id: (metadata.id as string) || (match.id as string),
+    act: (metadata.act as string) || "Unknown act",
+    section: metadata.section as string | undefined,
+    title: metadata.title as string | undefined,
+    text,
+    source: (metadata.source as string) || "index",
+    score: match.score
+  };
+}
+
+function sectionKey(act: string, section: string): string {
+  return `${resolveAct(act)?.code ?? act}:${baseSection(section)}`;
+}
+
+/**
+ * Label retrieved IPC/BNS, CrPC/BNSS and IEA/BSA sections with whether they are
+ * in force, and pull in the corresponding section from the other code when it
+ * was not retrieved already.
+ */
+async function addCorrespondingSections(docs: IndexedDoc[], filters?: RetrievalFilters): Promise<IndexedDoc[]> {
+  const seen = new Set(docs.filter((doc) => doc.section).map((doc) => sectionKey(doc.act, doc.section!)));
+  const wanted: { from: IndexedDoc; target: CorrespondingSection }[] = [];
+
+  for (const doc of docs) {
+    const info = resolveAct(doc.act);
+    if (!info || !doc.section) continue;
+
+    const targets = findCorrespondingSections(info.code, doc.section);
+    doc.inForce = info.inForce;
+    doc.correspondsTo = targets.length ? targets.map((target) => `${target.act} ${target.section}`) : undefined;
+
+    for (const target of targets) {
+      const key = sectionKey(target.act, target.section);
+      if (seen.has(key) || wanted.length >= MAX_CONCORDANCE_DOCS || !allowsStatuteAct(filters, target.act)) continue;
+      seen.add(key);
+      wanted.push({ from: doc, target });
+    }
+  }
+
+  if (!wanted.length) return docs;
+
+  ragLogger.debug(`Fetching ${wanted.length} corresponding section(s) from the concordance`, {
+    targets: wanted.map(({ target }) => `${target.act} ${target.section}`)
   });
-  
+
   try {
-    const startTime = Date.now();
-    const [queryEmbedding] = await embedTexts([question]);
-    
-    if (!queryEmbedding) {
-      ragLogger.warn("Failed to generate query embedding for question");
-      return [];
-    }
+    const embeddings = await embedTexts(
+      wanted.map(({ target }) => `${target.actName} Section ${target.section}: ${target.subject}`),
+    );
+    const store = getVectorStore();
 
-    const index = getPineconeIndex();
-    const queryResponse = await index.query({
-      vector: queryEmbedding,
-      topK: limit,
-      includeMetadata: true,
-    });
+    const extras = await Promise.all(
+      wanted.map(async ({ from, target }, i) => {
+        try {
+          const [match] = await store.query({
+            vector: embeddings[i],
+            topK: 1,
+            filter: {
+              act: { $in: ACTS[target.act].indexNames },
+              section: { $eq: baseSection(target.section) },
+            },
+          });
+          if (!match) return null;
 
-    const matches = queryResponse.matches || [];
-    const retrievalTime = Date.now() - startTime;
-    
-    ragLogger.info("Pinecone query completed", {
-      matchCount: matches.length,
-      topK: limit,
-      retrievalTime: `${retrievalTime}ms`,
-      topScore: matches[0]?.score || 0
-    });
-    
-    if (!matches.length) {
-      ragLogger.warn("Pinecone returned no matches for the question");
-      return [];
-    }
+          const doc = toIndexedDoc(match);
+          if (!doc.text) return null;
 
-    const results: IndexedDoc[] = matches
-      .map((match) => {
-        const metadata = (match.metadata || {}) as any;
-
-        const text =
-          (metadata.text as string) ||
-          (metadata.content as string) ||
-          (metadata.body as string) ||
-          "";
-
-        return {
-          id: (metadata.id as string) || (match.id as string),
-          act: (metadata.act as string) || "Unknown act",
-          section: metadata.section as string | undefined,
-          title: metadata.title as string | undefined,
-          text,
-          source: (metadata.source as string) || "pinecone",
-          score: match.score
-        };
-      })
-      .filter((doc) => doc.text);
+          const fromCode = resolveAct(from.act)?.code ?? from.act;
+          return {
+            ...doc,
+            source: "concordance",
+            inForce: target.inForce,
+            correspondsTo: [`${fromCode} ${from.section}`],
+            retrieval: { retrievers: ["concordance"] },
+          };
+        } catch (error) {
+          ragLogger.warn("Failed to fetch corresponding section", {
+            target: `${target.act} ${target.section}`,
+            error: String(error)
+          });
+          return null;
+        }
+      }),
+    );
 
-    ragLogger.debug(`Filtered ${results.length} valid documents from ${matches.length} matches`);
-    return results;
+    const found = extras.filter((doc): doc is NonNullable<typeof doc> => doc !== null);
+    ragLogger.info(`Added ${found.length} corresponding section(s) from the concordance`);
+    return [...docs, ...found];
   } catch (error) {
-    ragLogger.error("Pinecone retrieval failed", { error: String(error) });
+    ragLogger.error("Concordance expansion failed", { error: String(error) });
+    return docs;
+  }
+}
+
+/**
+ * Fetch the sections the question cites explicitly ("BNS 103", "s. 420 IPC")
+ * by exact act + section filter, so they are not crowded out by neighbours
+ * that merely embed similarly. Citations of acts the filters exclude are skipped.
+ */
+async function retrieveCitedSections(question: string, filters?: RetrievalFilters): Promise<IndexedDoc[]> {
+  const citations = parseCitations(question)
+    .filter((citation) => allowsStatuteAct(filters, citation.act))
+    .slice(0, MAX_CITED_SECTIONS);
+  if (!citations.length) return [];
+
+  ragLogger.info("Question cites specific sections", { citations: citations.map(formatCitation) });
+
+  const results = await Promise.all(
+    citations.map(async (citation) => {
+      try {
+        const result = await lookupSection(citation.act, citation.section);
+        if (!result) {
+          ragLogger.warn("Cited section not found in index", { citation: formatCitation(citation) });
+          return null;
+        }
+
+        const doc: IndexedDoc = {
+          id: result.chunks[0].id,
+          act: result.chunks[0].act,
+          section: result.section,
+          title: result.title,
+          text: result.text,
+          source: result.chunks[0].source,
+          retrieval: { retrievers: ["citation"] },
+        };
+        return doc;
+      } catch (error) {
+        ragLogger.error("Exact section lookup failed", { citation: formatCitation(citation), error: String(error) });
+        return null;
+      }
+    }),
+  );
+
+  return results.filter((doc): doc is IndexedDoc => doc !== null);
+}
+
+function forceLabel(doc: IndexedDoc): string {
+  if (doc.inForce === undefined) return "";
+  const related = doc.correspondsTo?.length ? `; corresponds to ${doc.correspondsTo.join(", ")}` : "";
+  return doc.inForce ? `[IN FORCE${related}]` : `[REPEALED w.e.f. 1 July 2024${related}]`;
+}
+
+function fromFusedMatch(match: FusedMatch): IndexedDoc {
+  return {
+    ...toIndexedDoc(match),
+    retrieval: {
+      retrievers: Object.keys(match.retrievers),
+      fusedScore: match.score,
+      vector: match.retrievers.vector,
+      lexical: match.retrievers.lexical,
+    },
+  };
+}
+
+async function retrieveHybrid(
+  question: string,
+  limit: number,
+  weights?: Partial<RetrievalWeights>,
+  filters?: RetrievalFilters,
+  workspace: string = DEFAULT_WORKSPACE,
+): Promise<IndexedDoc[]> {
+  ragLogger.debug("Starting hybrid retrieval", { 
+    question: question.substring(0, 100), 
+    limit,
+    filters,
+    workspace
+  });
+
+  const matches = await hybridRetrieve(question, limit, weights, toMetadataFilter(filters), searchNamespaces(workspace));
+  if (!matches.length) {
+    ragLogger.warn("Hybrid retrieval returned no matches for the question");
     return [];
   }
+
+  const results = matches.map(fromFusedMatch).filter((doc) => doc.text);
+  ragLogger.debug(`Filtered ${results.length} valid documents from ${matches.length} matches`);
+  return results;
+}
+
+/**
+ * Rescore retrieved documents against the question and keep the best
+ * MAX_CONTEXT_DOCS; a calibrated reranker also drops those under the configured
+ * minimum relevance. Sections the question cites explicitly are never dropped.
+ */
+async function rerankDocs(question: string, docs: IndexedDoc[]): Promise<{ docs: IndexedDoc[]; debug?: RerankDebug }> {
+  const reranker = getReranker();
+  if (!reranker || !docs.length) {
+    return { docs: docs.slice(0, MAX_CONTEXT_DOCS) };
+  }
+
+  // RERANK_MIN_SCORE only applies to scores that judge relevance on their own
+  const minScore = reranker.calibrated ? getEnvConfig().rerank.minScore : 0;
+  const startTime = Date.now();
+  const candidates = docs.map((doc) => ({
+    id: doc.id,
+    text: [doc.act, doc.section && `Section ${doc.section}`, doc.title, doc.text].filter(Boolean).join(" "),
+  }));
+  const scores = await reranker.score(question, candidates);
+
+  if (!scores) {
+    return { docs: docs.slice(0, MAX_CONTEXT_DOCS) };
+  }
+
+  const { kept, belowMinScore } = selectReranked(docs, scores, {
+    limit: MAX_CONTEXT_DOCS,
+    minScore,
+    calibrated: reranker.calibrated,
+    pinned: (doc) => Boolean(doc.retrieval?.retrievers.includes("citation")),
+  });
+
+  ragLogger.info("Reranking completed", {
+    reranker: reranker.name,
+    candidates: docs.length,
+    belowMinScore,
+    kept: kept.length,
+    topScore: kept[0]?.rerankScore,
+    rerankTime: `${Date.now() - startTime}ms`
+  });
+
+  return {
+    docs: kept,
+    debug: {
+      reranker: reranker.name,
+      minScore,
+      candidates: docs.length,
+      belowMinScore,
+      kept: kept.length,
+    },
+  };
 }
 
-export async function answerLegalQuestion(question: string): Promise<ChatResult> {
+const SYSTEM_PROMPT =
+  "You are an expert Indian legal assistant (LawBot) specialising in IPC, BNS, BSA, and CrPC. You must answer strictly based on the legal CONTEXT provided. Always explain in simple language, clearly cite the relevant acts and section numbers, and include a short practical guidance section. Sections labelled IN FORCE belong to the new codes (BNS, BNSS, BSA) that replaced the IPC, CrPC and Indian Evidence Act on 1 July 2024; when a section and its counterpart are both relevant, cite the section in force first and mention the old-code equivalent. Each CONTEXT section starts with a numbered marker such as [1]; back every legal statement with the marker of the section it relies on, placed at the end of the sentence (e.g. 'Murder is punishable with death or imprisonment for life [1].', or [1, 3] for several). Only use markers that appear in the CONTEXT and never invent numbers. If the context does not contain an answer, say that explicitly instead of guessing. End every answer with a short disclaimer that this is not formal legal advice. Format your response in clear Markdown with headings (e.g., '### Relevant sections', '### Explanation', '### Practical guidance', '### Disclaimer'). Whenever you list conditions, factors, steps, or pieces of guidance, ALWAYS format them as proper Markdown lists, with each item starting on its own line using '- ' for bullets or '1.' for numbered lists.";
+
+const EMPTY_ANSWER_FALLBACK =
+  "I was unable to generate a detailed answer from the dataset and model. Please try asking your question again with more context.";
+
+const MAX_ANSWER_TOKENS = 1200;
+// Smaller window used only for rewriting follow-ups into standalone queries
+const CONDENSE_HISTORY_TOKEN_BUDGET = 800;
+
+const CONDENSE_PROMPT =
+  "Rewrite the user's latest message as a single standalone question for searching Indian legal sections. Resolve pronouns and references such as 'that', 'it' or 'the same offence' using the conversation, and keep any act names and section numbers. If the message is already standalone, return it unchanged. Reply with the question only.";
+
+export type { ChatUsage } from "./llm";
+
+export type ChatStreamEvent =
+  | { type: "sources"; sources: SourceSnippet[]; standaloneQuestion?: string; debug?: RetrievalDebug }
+  | { type: "token"; delta: string }
+  | {
+      type: "done";
+      answer: string;
+      citations?: MarkerCitation[];
+      invalidMarkers?: number[];
+      grounding?: GroundingReport;
+      usage?: ChatUsage;
+      timing: { retrievalMs: number; generationMs: number; totalMs: number };
+    }
+  | { type: "error"; message: string };
+
+type PreparedAnswer =
+  | { kind: "final"; result: ChatResult }
+  | {
+      kind: "generate";
+      sources: SourceSnippet[];
+      // The sections as shown to the model, for the grounding check
+      context: GroundingContext[];
+      messages: ChatMessage[];
+      retrievalMs: number;
+      standaloneQuestion?: string;
+      debug?: RetrievalDebug;
+    };
+
+/**
+ * Turn a follow-up ("what is the punishment for that?") into a standalone
+ * retrieval query using the recent conversation. Falls back to the original
+ * question if there is no history or the rewrite fails.
+ */
+async function condenseQuestion(question: string, history: ChatTurn[]): Promise<string> {
+  const recent = trimHistory(history, CONDENSE_HISTORY_TOKEN_BUDGET);
+  if (!recent.length) return question;
+
+  try {
+    const completion = await getChatModel().complete(
+      [
+        { role: "system", content: CONDENSE_PROMPT },
+        {
+          role: "user",
+          content: `Conversation:\n${formatTranscript(recent)}\n\nLatest message: ${question}`,
+        },
+      ],
+      { temperature: 0, maxTokens: 200 },
+    );
+
+    const condensed = completion.content;
+    if (!condensed) return question;
+
+    ragLogger.debug("Condensed follow-up question", {
+      original: question.substring(0, 100),
+      condensed: condensed.substring(0, 100)
+    });
+    return condensed;
+  } catch (error) {
+    ragLogger.warn("Failed to condense follow-up question, using it as-is", { error: String(error) });
+    return question;
+  }
+}
+
+/**
+ * Retrieval half of the pipeline shared by the JSON and streaming modes:
+ * either a final answer (nothing to generate from) or the sources and prompt
+ * to send to the model.
+ */
+async function prepareAnswer(question: string, options: AnswerOptions = {}): Promise<PreparedAnswer> {
   const trimmed = question.trim();
   if (!trimmed) {
     ragLogger.warn("Empty question received");
@@ -139,92 +470,290 @@ export async function answerLegalQuestion(question: string): Promise<ChatResult>
     questionPreview: trimmed.substring(0, 50)
   });
 
-  const pineconeConfigured = Boolean(process.env.PINECONE_API_KEY && process.env.PINECONE_INDEX);
-
-  if (!pineconeConfigured) {
-    ragLogger.error("Pinecone is not configured - cannot answer question");
+  if (!isVectorStoreConfigured()) {
+    ragLogger.error("Vector store is not configured - cannot answer question");
     return {
-      answer:
-        "The vector database is not configured on the server. Please set PINECONE_API_KEY and PINECONE_INDEX in the environment, or use the manual upload/indexing pipeline.",
-      sources: [],
+      kind: "final",
+      result: {
+        answer:
+          "The vector database is not configured on the server. Please set PINECONE_API_KEY and PINECONE_INDEX in the environment, or set VECTOR_STORE=local to use the built-in local index.",
+        sources: [],
+      },
     };
   }
 
-  const topDocs = await retrieveWithPinecone(trimmed, 8);
+  const retrievalStart = Date.now();
+  const history = options.history || [];
+  const searchQuery = history.length ? await condenseQuestion(trimmed, history) : trimmed;
+  const standaloneQuestion = searchQuery !== trimmed ? searchQuery : undefined;
+
+  // Over-fetch when a calibrated reranker will pick the best of the candidates; others only reorder the top results
+  const searchLimit = getReranker()?.calibrated ? getEnvConfig().rerank.candidates : MAX_CONTEXT_DOCS;
+  const [citedDocs, searchedDocs] = await Promise.all([
+    retrieveCitedSections(searchQuery, options.filters),
+    retrieveHybrid(searchQuery, searchLimit, options.weights, options.filters, options.workspace),
+  ]);
+
+  // Cited sections found by search too are kept once, crediting both retrievers
+  const citedByKey = new Map(citedDocs.map((doc) => [sectionKey(doc.act, doc.section || ""), doc]));
+  const retrievedDocs = [...citedDocs];
+  for (const doc of searchedDocs) {
+    const cited = doc.section ? citedByKey.get(sectionKey(doc.act, doc.section)) : undefined;
+    if (!cited) {
+      retrievedDocs.push(doc);
+    } else if (cited.retrieval && doc.retrieval) {
+      cited.retrieval = { ...doc.retrieval, retrievers: [...cited.retrieval.retrievers, ...doc.retrieval.retrievers] };
+    }
+  }
 
-  if (!topDocs.length) {
-    ragLogger.warn("No matching documents found for question");
+  const reranked = await rerankDocs(searchQuery, retrievedDocs);
+
+  if (!reranked.docs.length) {
+    ragLogger.warn(
+      retrievedDocs.length
+        ? "No retrieved documents passed the rerank relevance cutoff"
+        : "No matching documents found for question",
+      { candidates: retrievedDocs.length, filters: options.filters },
+    );
     return {
-      answer:
-        "I could not find any matching sections in the vector database for this question. Please try rephrasing or check that the index is populated.",
-      sources: [],
+      kind: "final",
+      result: {
+        answer: options.filters
+          ? "I could not find any matching sections for this question within the selected filters. Please try widening the act or source filters."
+          : "I could not find any matching sections in the vector database for this question. Please try rephrasing or check that the index is populated.",
+        sources: [],
+        standaloneQuestion,
+      },
     };
   }
 
+  const topDocs = await addCorrespondingSections(reranked.docs, options.filters);
+
   ragLogger.info(`Retrieved ${topDocs.length} relevant documents for context generation`);
 
-  const contextBlocks = topDocs.map((doc) => {
-    const headerParts = [doc.act, doc.section && `Section ${doc.section}`, doc.title]
+  const contextBlocks = topDocs.map((doc, index) => {
+    const headerParts = [doc.act, doc.section && `Section ${doc.section}`, doc.title, forceLabel(doc)]
       .filter(Boolean)
       .join(" - ");
-    return `${headerParts}\n\n${doc.text}`;
+    return `[${index + 1}] ${headerParts}\n\n${doc.text}`;
   });
 
   const context = contextBlocks.join("\n\n---\n\n");
 
-  const client = getOpenAIClient();
+  const sources: SourceSnippet[] = topDocs.map((doc, index) => ({
+    id: doc.id,
+    marker: index + 1,
+    act: doc.act,
+    section: doc.section,
+    title: doc.title,
+    snippet: doc.text.slice(0, 280),
+    inForce: doc.inForce,
+    correspondsTo: doc.correspondsTo,
+    rerankScore: doc.rerankScore,
+  }));
+
+  const debug: RetrievalDebug | undefined = options.debug
+    ? {
+        weights: resolveWeights(options.weights),
+        filters: options.filters,
+        rerank: reranked.debug,
+        sources: topDocs.map((doc) => ({
+          id: doc.id,
+          act: doc.act,
+          section: doc.section,
+          rerankScore: doc.rerankScore,
+          ...(doc.retrieval ?? { retrievers: [] }),
+        })),
+      }
+    : undefined;
+
+  const priorTurns = trimHistory(history);
+  const questionLine = standaloneQuestion
+    ? `User question: ${trimmed}\n(Standalone form: ${standaloneQuestion})`
+    : `User question: ${trimmed}`;
+
+  return {
+    kind: "generate",
+    sources,
+    context: topDocs.map((doc, index) => ({
+      marker: index + 1,
+      act: doc.act,
+      section: doc.section,
+      text: contextBlocks[index],
+      correspondsTo: doc.correspondsTo,
+    })),
+    standaloneQuestion,
+    debug,
+    retrievalMs: Date.now() - retrievalStart,
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      ...priorTurns,
+      {
+        role: "user",
+        content: `${questionLine}\n\nCONTEXT FROM LEGAL SECTIONS:\n${context}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Map the answer's [n] markers to sources, dropping markers that point at no
+ * retrieved section so every remaining citation can be followed, then check
+ * the answer's sections and claims against the context.
+ */
+function verifyAnswer(answer: string, prepared: Extract<PreparedAnswer, { kind: "generate" }>) {
+  const validation = validateMarkers(answer, prepared.sources);
+  if (validation.invalidMarkers.length) {
+    ragLogger.warn("Answer cited markers that match no source", {
+      invalidMarkers: validation.invalidMarkers,
+      sources: prepared.sources.length
+    });
+  }
+
+  const grounding = verifyGrounding(validation.answer, prepared.context);
+  if (grounding.notInContext || grounding.unsupported) {
+    ragLogger.warn("Answer is not fully grounded in the retrieved sections", {
+      notInContext: grounding.sections
+        .filter((section) => section.status === "not-in-context")
+        .map((section) => section.reference),
+      unsupportedClaims: grounding.unsupported,
+      supported: grounding.supported
+    });
+  }
+
+  return {
+    answer: validation.answer,
+    citations: validation.citations,
+    invalidMarkers: validation.invalidMarkers.length ? validation.invalidMarkers : undefined,
+    grounding,
+  };
+}
+
+export async function answerLegalQuestion(question: string, options: AnswerOptions = {}): Promise<ChatResult> {
+  const prepared = await prepareAnswer(question, options);
+  if (prepared.kind === "final") {
+    return prepared.result;
+  }
+
+  const chatModel = getChatModel();
 
-  ragLogger.debug("Generating answer with OpenAI", {
-    model: CHAT_MODEL,
-    contextLength: context.length,
-    maxTokens: 1200
+  ragLogger.debug("Generating answer", {
+    provider: chatModel.provider,
+    model: chatModel.model,
+    contextLength: prepared.messages[prepared.messages.length - 1].content.length,
+    historyTurns: prepared.messages.length - 2,
+    maxTokens: MAX_ANSWER_TOKENS
   });
 
   const startTime = Date.now();
   
   try {
-    const completion = await client.chat.completions.create({
-      model: CHAT_MODEL,
+    const completion = await chatModel.complete(prepared.messages, {
       temperature: 0.2,
-      max_tokens: 1200,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert Indian legal assistant (LawBot) specialising in IPC, BNS, BSA, and CrPC. You must answer strictly based on the legal CONTEXT provided. Always explain in simple language, clearly cite the relevant acts and section numbers, and include a short practical guidance section. If the context does not contain an answer, say that explicitly instead of guessing. End every answer with a short disclaimer that this is not formal legal advice. Format your response in clear Markdown with headings (e.g., '### Relevant sections', '### Explanation', '### Practical guidance', '### Disclaimer'). Whenever you list conditions, factors, steps, or pieces of guidance, ALWAYS format them as proper Markdown lists, with each item starting on its own line using '- ' for bullets or '1.' for numbered lists.",
-        },
-        {
-          role: "user",
-          content: `User question: ${trimmed}\n\nCONTEXT FROM LEGAL SECTIONS:\n${context}`,
-        },
-      ],
+      maxTokens: MAX_ANSWER_TOKENS,
     });
 
     const generationTime = Date.now() - startTime;
-    const answer = completion.choices?.[0]?.message?.content?.trim();
+    const answer = completion.content;
     
     ragLogger.info("Answer generated successfully", {
       generationTime: `${generationTime}ms`,
-      answerLength: answer?.length || 0,
-      tokensUsed: completion.usage?.total_tokens || 0
+      answerLength: answer.length,
+      tokensUsed: completion.usage?.totalTokens || 0
     });
 
-  const sources: SourceSnippet[] = topDocs.map((doc) => ({
-    id: doc.id,
-    act: doc.act,
-    section: doc.section,
-    title: doc.title,
-    snippet: doc.text.slice(0, 280),
-  }));
-
     return {
-      answer:
-        answer ||
-        "I was unable to generate a detailed answer from the dataset and model. Please try asking your question again with more context.",
-      sources,
+      ...verifyAnswer(answer || EMPTY_ANSWER_FALLBACK, prepared),
+      sources: prepared.sources,
+      standaloneQuestion: prepared.standaloneQuestion,
+      debug: prepared.debug,
+    };
+  } catch (error) {
+    ragLogger.error("Failed to generate answer", { error: String(error), provider: chatModel.provider });
+    throw error;
+  }
+}
+
+/**
+ * Streaming variant of answerLegalQuestion: yields the retrieved sources
+ * first, then token deltas as the model produces them, then a final event
+ * with the full answer, token usage and timings.
+ */
+export async function* streamLegalAnswer(
+  question: string,
+  options: AnswerOptions = {},
+): AsyncGenerator<ChatStreamEvent> {
+  const startTime = Date.now();
+  const prepared = await prepareAnswer(question, options);
+
+  if (prepared.kind === "final") {
+    yield { type: "sources", sources: prepared.result.sources, standaloneQuestion: prepared.result.standaloneQuestion };
+    yield { type: "token", delta: prepared.result.answer };
+    yield {
+      type: "done",
+      answer: prepared.result.answer,
+      timing: { retrievalMs: Date.now() - startTime, generationMs: 0, totalMs: Date.now() - startTime },
     };
+    return;
+  }
+
+  yield {
+    type: "sources",
+    sources: prepared.sources,
+    standaloneQuestion: prepared.standaloneQuestion,
+    debug: prepared.debug,
+  };
+
+  const chatModel = getChatModel();
+  const generationStart = Date.now();
+  let answer = "";
+  let usage: ChatUsage | undefined;
+
+  ragLogger.debug("Streaming answer", {
+    provider: chatModel.provider,
+    model: chatModel.model,
+    contextLength: prepared.messages[prepared.messages.length - 1].content.length,
+    historyTurns: prepared.messages.length - 2,
+    maxTokens: MAX_ANSWER_TOKENS
+  });
+
+  try {
+    const stream = chatModel.stream(prepared.messages, {
+      temperature: 0.2,
+      maxTokens: MAX_ANSWER_TOKENS,
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.delta) {
+        answer += chunk.delta;
+        yield { type: "token", delta: chunk.delta };
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
   } catch (error) {
-    ragLogger.error("Failed to generate answer with OpenAI", { error: String(error) });
+    ragLogger.error("Failed to stream answer", { error: String(error), provider: chatModel.provider });
     throw error;
   }
+
+  const generationMs = Date.now() - generationStart;
+
+  ragLogger.info("Streamed answer generated successfully", {
+    generationTime: `${generationMs}ms`,
+    answerLength: answer.length,
+    tokensUsed: usage?.totalTokens || 0
+  });
+
+  if (!answer.trim()) {
+    answer = EMPTY_ANSWER_FALLBACK;
+    yield { type: "token", delta: answer };
+  }
+
+  yield {
+    type: "done",
+    ...verifyAnswer(answer.trim(), prepared),
+    usage,
+    timing: { retrievalMs: prepared.retrievalMs, generationMs, totalMs: Date.now() - startTime },
+  };
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { LexicalReranker, selectReranked } from "./rerank";
+
+type Doc = { id: string; text: string; cited?: boolean };
+
+const pinned = (doc: Doc) => Boolean(doc.cited);
+
+describe("LexicalReranker", () => {
+  it("scores by the share of question terms a candidate contains", async () => {
+    const scores = await new LexicalReranker().score("punishment for murder", [
+      { id: "bns_103", text: "BNS Section 103 Punishment for murder" },
+      { id: "bns_318", text: "BNS Section 318 Cheating" },
+    ]);
+    expect(scores[0]).toBe(1);
+    expect(scores[1]).toBe(0);
+  });
+});
+
+describe("selectReranked", () => {
+  it("keeps a relevant section that shares no words with the question", async () => {
+    // The dense retriever's best hit for a plain-language question, then lexical matches on its words
+    const docs: Doc[] = [
+      { id: "ipc_323", text: "IPC Section 323 Punishment for voluntarily causing hurt" },
+      { id: "ipc_324", text: "IPC Section 324 Voluntarily causing hurt by dangerous weapons or means" },
+      { id: "bns_115", text: "BNS Section 115 Voluntarily causing hurt" },
+      { id: "ipc_100", text: "IPC Section 100 Right of private defence against an assault with a stick" },
+      { id: "ipc_352", text: "IPC Section 352 Hit or assault otherwise than on grave provocation" },
+    ];
+    const reranker = new LexicalReranker();
+    const scores = await reranker.score("he hit me with a stick", docs);
+    expect(scores[0]).toBe(0);
+
+    const { kept, belowMinScore } = selectReranked(docs, scores, {
+      limit: 3,
+      minScore: 0.3,
+      calibrated: reranker.calibrated,
+      pinned,
+    });
+    expect(kept.map((doc) => doc.id)).toEqual(["ipc_323", "ipc_324", "bns_115"]);
+    expect(belowMinScore).toBe(0);
+  });
+
+  it("lets calibrated scores drop weak candidates and pick from all of them", () => {
+    const docs: Doc[] = [{ id: "a" }, { id: "b" }, { id: "c", cited: true }, { id: "d" }].map((doc) => ({ text: "", ...doc }));
+    const { kept, belowMinScore } = selectReranked(docs, [0.2, 0.5, 0.1, 0.9], {
+      limit: 3,
+      minScore: 0.3,
+      calibrated: true,
+      pinned,
+    });
+    expect(kept.map((doc) => [doc.id, doc.rerankScore])).toEqual([
+      ["c", 0.1],
+      ["d", 0.9],
+      ["b", 0.5],
+    ]);
+    expect(belowMinScore).toBe(1);
+  });
+
+  it("reorders only the first candidates, leaving room for pinned ones", () => {
+    const docs: Doc[] = ["a", "b", "c", "d"].map((id) => ({ id, text: "", cited: id === "d" }));
+    const { kept } = selectReranked(docs, [0, 0.5, 1, 0], { limit: 3, minScore: 0.3, calibrated: false, pinned });
+    expect(kept.map((doc) => doc.id)).toEqual(["d", "b", "a"]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Reranking stage between retrieval and generation: candidates are rescored
+ * against the question and only the most relevant reach the prompt.
+ * RERANKER selects the implementation ("lexical" by default, "llm" or "none").
+ * Only calibrated scores (the LLM's) drop candidates; the lexical heuristic
+ * just reorders the best-retrieved ones, since a relevant section can share no
+ * words with a plain-language question.
+ */
+
+import { getEnvConfig } from "./env";
+import { getChatModel } from "./llm";
+import { tokenize } from "./bm25";
+import { ragLogger } from "./logger";
+
+export type RerankCandidate = {
+  id: string;
+  text: string;
+};
+
+export interface Reranker {
+  readonly name: string;
+  // Scores judge relevance on their own, so a minimum score can drop candidates
+  readonly calibrated: boolean;
+  /**
+   * Relevance scores in [0, 1], one per candidate and in candidate order, or
+   * null when the reranker could not score them (callers keep retrieval order).
+   */
+  score(question: string, candidates: RerankCandidate[]): Promise<number[] | null>;
+}
+
+// Characters of each candidate shown to the LLM reranker
+const LLM_PASSAGE_CHARS = 500;
+
+const LLM_RERANK_PROMPT =
+  "You rate how useful each numbered passage of Indian law is for answering the user's question, from 0 (irrelevant) to 10 (directly answers it). Judge only relevance, not correctness. Reply with JSON only, in the form {\"scores\": [n, n, ...]}, with exactly one score per passage in the given order.";
+
+/**
+ * Local heuristic: share of the question's terms found in the candidate, with
+ * a bonus when consecutive question terms appear together as a phrase.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = "lexical";
+  readonly calibrated = false;
+
+  async score(question: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTerms = [...new Set(tokenize(question))];
+    if (!queryTerms.length) return candidates.map(() => 0);
+
+    const pairs = queryTerms.slice(1).map((term, i) => `${queryTerms[i]} ${term}`);
+
+    return candidates.map((candidate) => {
+      const tokens = tokenize(candidate.text);
+      const present = new Set(tokens);
+      const coverage = queryTerms.filter((term) => present.has(term)).length / queryTerms.length;
+
+      if (!pairs.length) return coverage;
+      const joined = ` ${tokens.join(" ")} `;
+      const phraseShare = pairs.filter((pair) => joined.includes(` ${pair} `)).length / pairs.length;
+      return Math.min(1, coverage * 0.8 + phraseShare * 0.2);
+    });
+  }
+}
+
+export class LLMReranker implements Reranker {
+  readonly name = "llm";
+  readonly calibrated = true;
+
+  async score(question: string, candidates: RerankCandidate[]): Promise<number[] | null> {
+    if (!candidates.length) return [];
+
+    const passages = candidates
+      .map((candidate, i) => `[${i + 1}] ${candidate.text.slice(0, LLM_PASSAGE_CHARS).replace(/\s+/g, " ")}`)
+      .join("\n\n");
+
+    try {
+      const completion = await getChatModel().complete(
+        [
+          { role: "system", content: LLM_RERANK_PROMPT },
+          { role: "user", content: `Question: ${question}\n\nPassages:\n${passages}` },
+        ],
+        { temperature: 0, maxTokens: 20 + candidates.length * 4 },
+      );
+
+      const json = completion.content.match(/\{[\s\S]*\}/)?.[0];
+      const scores = json ? (JSON.parse(json).scores as unknown) : undefined;
+      if (!Array.isArray(scores) || scores.length !== candidates.length) {
+        ragLogger.warn("LLM reranker returned an unexpected response, keeping retrieval order", {
+          expected: candidates.length,
+          received: Array.isArray(scores) ? scores.length : undefined
+        });
+        return null;
+      }
+
+      return scores.map((score) => Math.max(0, Math.min(10, Number(score) || 0)) / 10);
+    } catch (error) {
+      ragLogger.warn("LLM reranking failed, keeping retrieval order", { error: String(error) });
+      return null;
+    }
+  }
+}
+
+export type RerankSelection<T> = {
+  kept: (T & { rerankScore: number })[];
+  // Candidates dropped for scoring under minScore
+  belowMinScore: number;
+};
+
+/**
+ * Keep at most `limit` scored candidates, best first. Pinned candidates are
+ * always kept and come first. A calibrated reranker picks the best of all
+ * candidates at or above `minScore`; otherwise the first candidates in
+ * retrieval order are kept and only their order changes.
+ */
+export function selectReranked<T>(
+  candidates: T[],
+  scores: number[],
+  options: { limit: number; minScore: number; calibrated: boolean; pinned: (candidate: T) => boolean },
+): RerankSelection<T> {
+  const scored = candidates.map((candidate, i) => ({ ...candidate, rerankScore: scores[i] }));
+  const pinned = scored.filter((candidate) => options.pinned(candidate));
+  const rest = scored.filter((candidate) => !options.pinned(candidate));
+  const eligible = options.calibrated
+    ? rest.filter((candidate) => candidate.rerankScore >= options.minScore)
+    : rest.slice(0, Math.max(0, options.limit - pinned.length));
+
+  // Stable sort keeps retrieval order among equal scores
+  const kept = [...pinned, ...eligible.sort((a, b) => b.rerankScore - a.rerankScore)].slice(0, options.limit);
+  return { kept, belowMinScore: options.calibrated ? rest.length - eligible.length : 0 };
+}
+
+let _reranker: Reranker | null | undefined;
+
+/** The configured reranker, or null when reranking is disabled */
+export function getReranker(): Reranker | null {
+  if (_reranker === undefined) {
+    const { provider } = getEnvConfig().rerank;
+    _reranker = provider === "llm" ? new LLMReranker() : provider === "lexical" ? new LexicalReranker() : null;
+    ragLogger.info("Reranker initialized", { provider });
+  }
+  return _reranker;
+}
@@ -0,0 +1,104 @@
+/**
+ * Exact section lookup by act + section metadata, bypassing semantic ranking
+ */
+
+import { ActCode, ACTS, baseSection } from "./acts";
+import { embedTexts } from "./llm";
+import { getVectorStore, VectorMetadata } from "./vectorstore";
+import { ragLogger } from "./logger";
+
+export type SectionChunk = {
+  id: string;
+  act: string;
+  section: string;
+  title?: string;
+  text: string;
+  chunkIndex: number;
+  source: string;
+};
+
+export type SectionLookupResult = {
+  act: ActCode;
+  actName: string;
+  section: string;
+  title?: string;
+  text: string;
+  chunks: SectionChunk[];
+};
+
+// Enough to cover every chunk of the longest sections in the dataset
+const MAX_SECTION_CHUNKS = 20;
+
+function stringField(metadata: VectorMetadata, field: string): string | undefined {
+  const value = metadata[field];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Fetch every indexed chunk of `act` + `section` ("318(4)" looks up section 318).
+ * `queryVector` ranks chunks when a section is indexed under more than one act
+ * name (e.g. the IPC CSV and the Indian Penal Code statute file); when omitted
+ * the section reference itself is embedded.
+ */
+export async function lookupSection(
+  act: ActCode,
+  section: string,
+  queryVector?: number[],
+): Promise<SectionLookupResult | null> {
+  const info = ACTS[act];
+  const base = baseSection(section);
+
+  const vector = queryVector ?? (await embedTexts([`${info.name} Section ${base}`]))[0];
+  if (!vector) {
+    ragLogger.warn("Failed to generate embedding for section lookup", { act, section });
+    return null;
+  }
+
+  const matches = await getVectorStore().query({
+    vector,
+    topK: MAX_SECTION_CHUNKS,
+    filter: {
+      act: { $in: info.indexNames },
+      section: { $eq: base },
+    },
+  });
+
+  if (!matches.length) {
+    ragLogger.debug("No indexed chunks found for section", { act, section: base });
+    return null;
+  }
+
+  const chunks: SectionChunk[] = matches
+    .map((match) => {
+      const metadata = match.metadata ?? {};
+      return {
+        id: match.id,
+        act: stringField(metadata, "act") || info.code,
+        section: stringField(metadata, "section") || base,
+        title: stringField(metadata, "title"),
+        text: stringField(metadata, "text") || "",
+        chunkIndex: Number(metadata.chunkIndex ?? 0),
+        source: stringField(metadata, "source") || "index",
+      };
+    })
+    .filter((chunk) => chunk.text);
+
+  if (!chunks.length) return null;
+
+  // Keep the chunks from the best-matching copy of the act, in document order
+  const preferredAct = chunks[0].act;
+  const sectionChunks = chunks
+    .filter((chunk) => chunk.act === preferredAct)
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  ragLogger.debug(`Found ${sectionChunks.length} chunk(s) for ${act} ${base}`, { indexAct: preferredAct });
+
+  return {
+    act: info.code,
+    actName: info.name,
+    section: base,
+    title: sectionChunks.find((chunk) => chunk.title)?.title,
+    text: sectionChunks.map((chunk) => chunk.text).join("\n"),
+    chunks: sectionChunks,
+  };
+}
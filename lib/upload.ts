@@ -1,107 +1,335 @@
-import { embedTexts } from "./openai";
-import { getPineconeIndex } from "./pinecone";
+import { getEnvConfig } from "./env";
+import {
+  ChunkMetadata,
+  clauseMetadata,
+  DocumentType,
+  ExtractedDocument,
+  extractDocument,
+  IngestChunk,
+  removeChunks,
+  removeDeadLetters,
+  splitLegalText,
+  UnsupportedDocumentError,
+  upsertChunks,
+} from "./ingest";
+import { contentHash, documentId, DocumentRecord, getDocumentRegistry } from "./documents";
+import { getLexicalIndex } from "./bm25";
 import { indexLogger } from "./logger";
+import { DEFAULT_NAMESPACE, getVectorStore } from "./vectorstore";
+import { DEFAULT_WORKSPACE, workspaceNamespace } from "./workspaces";
 
-export type UploadedDoc = {
-  id: string;
-  text: string;
-  metadata?: Record<string, unknown>;
+export type UploadedDoc = IngestChunk;
+
+export type UploadFile = {
+  name: string;
+  // MIME type declared by the client; may be empty
+  type: string;
+  buffer: Buffer;
 };
 
-function chunkText(text: string, maxChars = 1500): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-
-  while (start < text.length) {
-    const end = Math.min(start + maxChars, text.length);
-    const chunk = text.slice(start, end).trim();
-    if (chunk) {
-      chunks.push(chunk);
-    }
-    start = end;
-  }
+// What to do with a file whose content was uploaded before
+export type DuplicatePolicy = "skip" | "replace";
+
+export type UploadOptions = {
+  // Files are indexed into this workspace's namespace; defaults to the default workspace
+  workspace?: string;
+  duplicates?: DuplicatePolicy;
+  // Recorded in the document registry
+  uploader?: string;
+};
+
+export type UploadRejection = "too-large" | "unsupported-type" | "unreadable" | "empty";
+
+export type UploadFileResult = {
+  fileName: string;
+  status: "accepted" | "skipped-duplicate" | "rejected";
+  documentId?: string;
+  rejection?: UploadRejection;
+  reason?: string;
+  chunks?: number;
+  // Chunks that failed after retries; they are on the dead-letter list
+  failedChunks?: number;
+  // An earlier copy of the same content was replaced
+  replaced?: boolean;
+};
+
+// Declared MIME types we accept and the detected types each may contain.
+// Browsers often send no type (or a generic one) for .md and .csv files, so those defer to detection.
+const ALLOWED_MIME_TYPES: Record<string, DocumentType[] | "any"> = {
+  "": "any",
+  "application/octet-stream": "any",
+  "application/pdf": ["pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ["docx"],
+  "text/html": ["html"],
+  "application/xhtml+xml": ["html"],
+  "text/markdown": ["markdown", "text"],
+  "text/x-markdown": ["markdown", "text"],
+  "text/plain": ["text", "markdown", "html"],
+  "text/csv": ["text"],
+  "application/json": ["text"],
+};
 
-  return chunks;
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
 }
 
-export function chunkFileText(fileName: string, rawText: string): UploadedDoc[] {
-  const baseId = `${Date.now()}_${fileName.replace(/\s+/g, "_")}`;
-  const chunks = chunkText(rawText);
+/**
+ * Chunk an extracted document. Chunk ids derive from the document id, so
+ * the same content always maps to the same vectors. PDF pages are chunked one
+ * at a time so every chunk carries the page it came from.
+ */
+export function chunkDocument(fileName: string, document: ExtractedDocument, id: string): UploadedDoc[] {
+  const options = getEnvConfig().chunking;
+  const chunks = document.pages.flatMap((page) =>
+    splitLegalText(page.text, options).map((chunk) => ({ chunk, page: page.page })),
+  );
 
-  return chunks.map((chunk, index) => ({
-    id: `${baseId}_chunk_${index + 1}`,
-    text: chunk,
-    metadata: {
+  return chunks.map(({ chunk, page }, index) => {
+    const metadata: ChunkMetadata = {
+      ...clauseMetadata(chunk),
       source: "upload",
       fileName,
+      documentId: id,
+      documentType: document.type,
       chunkIndex: index + 1,
       totalChunks: chunks.length,
       uploadedAt: new Date().toISOString(),
-    },
-  }));
+    };
+    if (page !== undefined) metadata.page = page;
+    if (document.totalPages !== undefined) metadata.totalPages = document.totalPages;
+
+    return { id: `upload_${id}_chunk_${index + 1}`, text: chunk.text, metadata };
+  });
 }
 
-export async function uploadDocumentsToPinecone(docs: UploadedDoc[]): Promise<{
+export async function uploadDocumentsToPinecone(docs: UploadedDoc[], namespace?: string): Promise<{
   uploadedChunks: number;
+  // Chunks that failed after retries; they are on the dead-letter list
+  failedChunks: number;
+  failedIds: string[];
   errors?: string[];
 }> {
   if (!docs.length) {
     indexLogger.warn("No documents provided for upload");
-    return { uploadedChunks: 0 };
+    return { uploadedChunks: 0, failedChunks: 0, failedIds: [] };
   }
 
   indexLogger.info(`Starting upload of ${docs.length} documents to Pinecone`);
-  
-  const index = getPineconeIndex();
-  const batchSize = 50;
-  let uploadedCount = 0;
-  const errors: string[] = [];
-
-  for (let i = 0; i < docs.length; i += batchSize) {
-    const batch = docs.slice(i, i + batchSize);
-    const batchNum = Math.floor(i / batchSize) + 1;
-    
-    try {
-      indexLogger.debug(`Processing batch ${batchNum} (${batch.length} documents)`);
-      
-      const embeddings = await embedTexts(batch.map((doc) => doc.text));
-
-      const vectors = batch.map((doc, idx) => ({
-        id: doc.id,
-        values: embeddings[idx],
-        metadata: {
-          ...doc.metadata,
-          text: doc.text.substring(0, 2000), // Limit text in metadata
-        },
-      }));
-
-      await index.upsert(vectors);
-      uploadedCount += batch.length;
-      
-      indexLogger.info(`Batch ${batchNum} uploaded successfully`, {
-        batchSize: batch.length,
-        totalUploaded: uploadedCount
-      });
-      
-      // Add small delay to avoid rate limiting
-      if (i + batchSize < docs.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    } catch (error) {
-      const errorMsg = `Failed to upload batch ${batchNum}: ${error}`;
-      indexLogger.error(errorMsg, { error: String(error) });
-      errors.push(errorMsg);
-    }
-  }
+
+  const { indexed, errors, failedIds } = await upsertChunks(docs, { namespace });
 
   if (errors.length > 0) {
     indexLogger.warn(`Upload completed with ${errors.length} errors`, { errors });
   } else {
-    indexLogger.info(`Successfully uploaded all ${uploadedCount} documents`);
+    indexLogger.info(`Successfully uploaded all ${indexed} documents`);
   }
 
-  return { 
-    uploadedChunks: uploadedCount,
+  return {
+    uploadedChunks: indexed,
+    failedChunks: failedIds.length,
+    failedIds,
     errors: errors.length > 0 ? errors : undefined
   };
 }
+
+type PreparedFile = {
+  result: UploadFileResult;
+  record: DocumentRecord;
+  chunks: UploadedDoc[];
+  previous: DocumentRecord | null;
+};
+
+/** Validate, extract and chunk one file, or explain why it is not indexed */
+async function prepareFile(
+  file: UploadFile,
+  seenHashes: Set<string>,
+  namespace: string,
+  options: UploadOptions,
+): Promise<PreparedFile | UploadFileResult> {
+  const { maxFileBytes } = getEnvConfig().upload;
+  const rejected = (rejection: UploadRejection, reason: string): UploadFileResult => ({
+    fileName: file.name,
+    status: "rejected",
+    rejection,
+    reason,
+  });
+
+  if (file.buffer.length > maxFileBytes) {
+    return rejected("too-large", `File is ${formatBytes(file.buffer.length)}; the limit is ${formatBytes(maxFileBytes)}.`);
+  }
+
+  const declared = file.type.split(";")[0].trim().toLowerCase();
+  const allowed = ALLOWED_MIME_TYPES[declared];
+  if (!allowed) {
+    return rejected("unsupported-type", `Files of type ${declared} are not accepted.`);
+  }
+
+  let document: ExtractedDocument;
+  try {
+    document = await extractDocument(file.buffer, file.name);
+  } catch (error) {
+    if (error instanceof UnsupportedDocumentError) return rejected("unsupported-type", error.message);
+    indexLogger.warn(`Could not extract text from ${file.name}`, { error: String(error) });
+    return rejected("unreadable", "The file could not be read. It may be damaged or password-protected.");
+  }
+
+  if (allowed !== "any" && !allowed.includes(document.type)) {
+    return rejected("unsupported-type", `Declared as ${declared} but the content is ${document.type}.`);
+  }
+  if (!document.pages.length) {
+    const hint = document.type === "pdf" ? " Scanned PDFs need OCR before upload." : "";
+    return rejected("empty", `No text could be extracted.${hint}`);
+  }
+
+  const hash = contentHash(file.buffer);
+  const id = documentId(hash);
+  const previous = await getDocumentRegistry().findByHash(hash, namespace);
+  if (seenHashes.has(hash) || (previous && options.duplicates !== "replace")) {
+    return {
+      fileName: file.name,
+      status: "skipped-duplicate",
+      documentId: id,
+      reason: seenHashes.has(hash)
+        ? "The same file appears earlier in this upload."
+        : `Already uploaded as ${previous!.fileName} on ${previous!.uploadedAt.slice(0, 10)}.`,
+    };
+  }
+  seenHashes.add(hash);
+
+  const chunks = chunkDocument(file.name, document, id);
+  return {
+    result: { fileName: file.name, status: "accepted", documentId: id, chunks: chunks.length, replaced: Boolean(previous) },
+    record: {
+      id,
+      hash,
+      fileName: file.name,
+      documentType: document.type,
+      size: file.buffer.length,
+      chunkIds: chunks.map((chunk) => chunk.id),
+      ...(options.uploader ? { uploader: options.uploader } : {}),
+      namespace,
+      uploadedAt: new Date().toISOString(),
+    },
+    chunks,
+    previous,
+  };
+}
+
+/**
+ * Index a batch of uploaded files into the workspace's namespace: each file
+ * is validated, extracted and checked against the workspace's documents by
+ * content hash, then all accepted files are embedded together. Returns one
+ * result per file, in order.
+ */
+export async function processUploads(
+  files: UploadFile[],
+  options: UploadOptions = {},
+): Promise<{ results: UploadFileResult[]; uploadedChunks: number; failedChunks: number }> {
+  const namespace = workspaceNamespace(options.workspace ?? DEFAULT_WORKSPACE);
+  const seenHashes = new Set<string>();
+  const prepared: (PreparedFile | UploadFileResult)[] = [];
+  for (const file of files) {
+    prepared.push(await prepareFile(file, seenHashes, namespace, options));
+  }
+
+  const accepted = prepared.filter((item): item is PreparedFile => "record" in item);
+
+  // Replacing drops the old copy's vectors; its chunk count may differ from the new one
+  const stale = accepted.flatMap((item) => {
+    const keep = new Set(item.record.chunkIds);
+    return item.previous?.chunkIds.filter((chunkId) => !keep.has(chunkId)) ?? [];
+  });
+  await removeChunks(stale, namespace);
+
+  const { uploadedChunks, failedChunks, failedIds } = await uploadDocumentsToPinecone(
+    accepted.flatMap((item) => item.chunks),
+    namespace,
+  );
+  const failed = new Set(failedIds);
+
+  const registry = getDocumentRegistry();
+  for (const item of accepted) {
+    item.result.failedChunks = item.record.chunkIds.filter((chunkId) => failed.has(chunkId)).length;
+    await registry.save(item.record);
+  }
+
+  return {
+    results: prepared.map((item) => ("record" in item ? item.result : item)),
+    uploadedChunks,
+    failedChunks,
+  };
+}
+
+export type UploadedChunk = {
+  id: string;
+  page?: number;
+  clausePath?: string;
+  // Start of the chunk text as stored with the vector
+  text: string;
+  // False when the chunk is missing from the index, e.g. it failed and is on the dead-letter list
+  indexed: boolean;
+};
+
+// Files uploaded before workspaces existed stay in the shared namespace and are managed from the default workspace
+function registryNamespaces(workspace: string): string[] {
+  const namespace = workspaceNamespace(workspace);
+  return workspace === DEFAULT_WORKSPACE ? [namespace, DEFAULT_NAMESPACE] : [namespace];
+}
+
+/** A workspace's uploaded files, most recent first */
+export async function listUploadedDocuments(workspace: string): Promise<DocumentRecord[]> {
+  const registry = getDocumentRegistry();
+  const lists = await Promise.all(registryNamespaces(workspace).map((namespace) => registry.list(namespace)));
+  return lists.flat().sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
+async function findUploadedDocument(id: string, workspace: string): Promise<DocumentRecord | null> {
+  for (const namespace of registryNamespaces(workspace)) {
+    const record = await getDocumentRegistry().get(id, namespace);
+    if (record) return record;
+  }
+  return null;
+}
+
+/** A registry record with its chunks, read back from the lexical index */
+export async function getUploadedDocument(
+  id: string,
+  workspace: string,
+): Promise<(DocumentRecord & { chunks: UploadedChunk[] }) | null> {
+  const record = await findUploadedDocument(id, workspace);
+  if (!record) return null;
+
+  const lexicalIndex = getLexicalIndex(record.namespace ?? DEFAULT_NAMESPACE);
+  const chunks = record.chunkIds.map((chunkId): UploadedChunk => {
+    const metadata = lexicalIndex.metadata(chunkId);
+    return {
+      id: chunkId,
+      page: typeof metadata?.page === "number" ? metadata.page : undefined,
+      clausePath: typeof metadata?.clausePath === "string" ? metadata.clausePath : undefined,
+      text: typeof metadata?.text === "string" ? metadata.text : "",
+      indexed: metadata !== undefined,
+    };
+  });
+  return { ...record, chunks };
+}
+
+/**
+ * Delete one uploaded file: its vectors, its lexical entries, any of its
+ * chunks waiting on the dead-letter list, and its registry record.
+ */
+export async function deleteUploadedDocument(id: string, workspace: string): Promise<DocumentRecord | null> {
+  const record = await findUploadedDocument(id, workspace);
+  if (!record) return null;
+
+  const namespace = record.namespace ?? DEFAULT_NAMESPACE;
+  await removeChunks(record.chunkIds, namespace);
+  await getVectorStore().flush();
+  await removeDeadLetters(record.chunkIds, namespace);
+  await getDocumentRegistry().delete(id, namespace);
+  indexLogger.info(`Deleted uploaded document ${record.fileName}`, {
+    documentId: id,
+    namespace,
+    chunks: record.chunkIds.length,
+  });
+  return record;
+}
@@ -0,0 +1,57 @@
+/**
+ * Vector store selection. VECTOR_STORE=pinecone (default) uses the hosted
+ * Pinecone index; VECTOR_STORE=local keeps vectors in-process, persisted to
+ * LOCAL_VECTOR_STORE_PATH, so the app runs without a Pinecone account.
+ */
+
+import { getEnvConfig } from "../env";
+import { createLogger } from "../logger";
+import { LocalVectorStore } from "./local";
+import { PineconeVectorStore } from "./pinecone";
+import { VectorStore } from "./types";
+
+export * from "./types";
+export { LocalVectorStore, matchesFilter } from "./local";
+export { PineconeVectorStore } from "./pinecone";
+
+const storeLogger = createLogger("VectorStore");
+
+let _store: VectorStore | null = null;
+
+/**
+ * Whether the selected backend has what it needs to run. Reads the environment
+ * directly so callers can check without triggering full config validation.
+ */
+export function isVectorStoreConfigured(): boolean {
+  const provider = (process.env.VECTOR_STORE || "pinecone").toLowerCase();
+  if (provider === "local") return true;
+  return Boolean(process.env.PINECONE_API_KEY && process.env.PINECONE_INDEX);
+}
+
+export function getVectorStore(): VectorStore {
+  if (!_store) {
+    const config = getEnvConfig().vectorStore;
+    _store = config.provider === "local" ? new LocalVectorStore(config.localPath) : new PineconeVectorStore();
+    storeLogger.info("Vector store initialized", { provider: config.provider });
+  }
+  return _store;
+}
+
+export async function checkVectorStoreConnection(): Promise<boolean> {
+  try {
+    const store = getVectorStore();
+    const stats = await store.stats();
+
+    storeLogger.info("Vector store connection verified", {
+      provider: store.provider,
+      totalVectors: stats.totalRecordCount,
+      dimension: stats.dimension,
+      indexFullness: stats.indexFullness
+    });
+
+    return true;
+  } catch (error) {
+    storeLogger.error("Vector store connection check failed", { error: String(error) });
+    return false;
+  }
+}
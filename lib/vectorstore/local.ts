@@ -0,0 +1,249 @@
+/**
+ * In-process vector store: brute-force cosine search over vectors held in
+ * memory, persisted to a single JSON file so the index survives restarts.
+ * Namespaces are kept apart in memory and tagged on each persisted record.
+ * Suitable for development, tests and small self-hosted corpora.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createLogger } from "../logger";
+import {
+  DEFAULT_NAMESPACE,
+  FieldCondition,
+  MetadataFilter,
+  MetadataValue,
+  VectorMatch,
+  VectorMetadata,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from "./types";
+
+const localLogger = createLogger("LocalVectorStore");
+
+// Batch writes from an ingestion run into one file write
+const FLUSH_DELAY_MS = 1000;
+
+type StoredVector = {
+  values: Float32Array;
+  norm: number;
+  metadata?: VectorMetadata;
+};
+
+type PersistedStore = {
+  version: 1;
+  dimension?: number;
+  // Records without a namespace belong to the default one
+  records: { id: string; values: string; metadata?: VectorMetadata; namespace?: string }[];
+};
+
+function norm(values: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i] * values[i];
+  return Math.sqrt(sum);
+}
+
+function encodeVector(values: Float32Array): string {
+  return Buffer.from(values.buffer, values.byteOffset, values.byteLength).toString("base64");
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, "base64");
+  // Copy into an aligned buffer; Buffer slices may not be 4-byte aligned
+  return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+}
+
+function matchesCondition(value: MetadataValue | undefined, condition: FieldCondition): boolean {
+  // Array-valued metadata matches when any element satisfies the condition, as in Pinecone
+  if (Array.isArray(value)) {
+    if (typeof condition === "object" && (condition.$ne !== undefined || condition.$nin !== undefined)) {
+      return value.every((item) => matchesCondition(item, condition));
+    }
+    return value.some((item) => matchesCondition(item, condition));
+  }
+
+  if (typeof condition !== "object") return value === condition;
+
+  if (condition.$eq !== undefined && value !== condition.$eq) return false;
+  if (condition.$ne !== undefined && value === condition.$ne) return false;
+  if (condition.$in !== undefined && (value === undefined || !condition.$in.includes(value))) return false;
+  if (condition.$nin !== undefined && value !== undefined && condition.$nin.includes(value)) return false;
+  if (condition.$gt !== undefined && !(typeof value === "number" && value > condition.$gt)) return false;
+  if (condition.$gte !== undefined && !(typeof value === "number" && value >= condition.$gte)) return false;
+  if (condition.$lt !== undefined && !(typeof value === "number" && value < condition.$lt)) return false;
+  if (condition.$lte !== undefined && !(typeof value === "number" && value <= condition.$lte)) return false;
+  return true;
+}
+
+export function matchesFilter(metadata: VectorMetadata | undefined, filter: MetadataFilter): boolean {
+  const fields = metadata || {};
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (condition === undefined) continue;
+    if (key === "$and") {
+      if (!(condition as MetadataFilter[]).every((sub) => matchesFilter(metadata, sub))) return false;
+    } else if (key === "$or") {
+      if (!(condition as MetadataFilter[]).some((sub) => matchesFilter(metadata, sub))) return false;
+    } else if (!matchesCondition(fields[key], condition as FieldCondition)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export class LocalVectorStore implements VectorStore {
+  readonly provider = "local";
+  // namespace -> id -> vector
+  private namespaces = new Map<string, Map<string, StoredVector>>();
+  private dimension?: number;
+  private loaded: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Writes share one temp file, so flushes run one after another
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private namespace(name: string): Map<string, StoredVector> {
+    let vectors = this.namespaces.get(name);
+    if (!vectors) {
+      vectors = new Map();
+      this.namespaces.set(name, vectors);
+    }
+    return vectors;
+  }
+
+  private get size(): number {
+    let total = 0;
+    for (const vectors of this.namespaces.values()) total += vectors.size;
+    return total;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (!fs.existsSync(this.filePath)) {
+          localLogger.info("No local vector file found, starting empty", { path: this.filePath });
+          return;
+        }
+
+        const persisted = JSON.parse(await fs.promises.readFile(this.filePath, "utf-8")) as PersistedStore;
+        this.dimension = persisted.dimension;
+        for (const record of persisted.records) {
+          const values = decodeVector(record.values);
+          this.namespace(record.namespace ?? DEFAULT_NAMESPACE).set(record.id, {
+            values,
+            norm: norm(values),
+            metadata: record.metadata,
+          });
+        }
+        localLogger.info(`Loaded ${this.size} vectors from disk`, { path: this.filePath });
+      })();
+    }
+    return this.loaded;
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((error) => localLogger.error("Failed to persist local vector store", error));
+    }, FLUSH_DELAY_MS);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const write = this.writing.catch(() => undefined).then(() => this.write());
+    this.writing = write;
+    return write;
+  }
+
+  private async write(): Promise<void> {
+    await this.load();
+
+    const persisted: PersistedStore = {
+      version: 1,
+      dimension: this.dimension,
+      records: [...this.namespaces].flatMap(([namespace, vectors]) =>
+        [...vectors].map(([id, vector]) => ({
+          id,
+          values: encodeVector(vector.values),
+          metadata: vector.metadata,
+          ...(namespace === DEFAULT_NAMESPACE ? {} : { namespace }),
+        })),
+      ),
+    };
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(persisted), "utf-8");
+    await fs.promises.rename(temp, this.filePath);
+    localLogger.debug(`Persisted ${this.size} vectors`, { path: this.filePath });
+  }
+
+  async upsert(records: VectorRecord[], namespace: string = DEFAULT_NAMESPACE): Promise<void> {
+    await this.load();
+    const vectors = this.namespace(namespace);
+
+    for (const record of records) {
+      if (this.dimension === undefined) {
+        this.dimension = record.values.length;
+      } else if (record.values.length !== this.dimension) {
+        throw new Error(
+          `[local-vector-store] Vector ${record.id} has dimension ${record.values.length}, expected ${this.dimension}`,
+        );
+      }
+      const values = Float32Array.from(record.values);
+      vectors.set(record.id, { values, norm: norm(values), metadata: record.metadata });
+    }
+
+    this.scheduleFlush();
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    await this.load();
+
+    const queryNorm = norm(query.vector);
+    if (!queryNorm || query.topK <= 0) return [];
+
+    const matches: VectorMatch[] = [];
+    for (const [id, vector] of this.namespaces.get(query.namespace ?? DEFAULT_NAMESPACE) ?? []) {
+      if (query.filter && !matchesFilter(vector.metadata, query.filter)) continue;
+      if (vector.values.length !== query.vector.length || !vector.norm) continue;
+
+      let dot = 0;
+      for (let i = 0; i < vector.values.length; i++) dot += vector.values[i] * query.vector[i];
+      matches.push({ id, score: dot / (vector.norm * queryNorm), metadata: vector.metadata });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, query.topK);
+  }
+
+  async deleteIds(ids: string[], namespace: string = DEFAULT_NAMESPACE): Promise<void> {
+    await this.load();
+    const vectors = this.namespaces.get(namespace);
+    for (const id of ids) vectors?.delete(id);
+    this.scheduleFlush();
+  }
+
+  async deleteAll(namespace: string = DEFAULT_NAMESPACE): Promise<void> {
+    await this.load();
+    localLogger.warn("Deleting all vectors from local store namespace", { namespace });
+    this.namespaces.delete(namespace);
+    if (!this.size) this.dimension = undefined;
+    await this.flush();
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    await this.load();
+    const namespaces: Record<string, number> = {};
+    for (const [name, vectors] of this.namespaces) {
+      if (vectors.size) namespaces[name] = vectors.size;
+    }
+    return { totalRecordCount: this.size, dimension: this.dimension, namespaces };
+  }
+}
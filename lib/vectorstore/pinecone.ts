@@ -0,0 +1,78 @@
+import { getPineconeIndex } from "../pinecone";
+import { pineconeLogger } from "../logger";
+import {
+  DEFAULT_NAMESPACE,
+  VectorMatch,
+  VectorMetadata,
+  VectorQuery,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from "./types";
+
+// Pinecone caps deletes by id at 1000 per request
+const DELETE_BATCH_SIZE = 1000;
+// Newer Pinecone API versions report the default namespace under this name
+const DEFAULT_NAMESPACE_ALIAS = "__default__";
+
+function namespacedIndex(namespace: string = DEFAULT_NAMESPACE) {
+  const index = getPineconeIndex();
+  return namespace === DEFAULT_NAMESPACE ? index : index.namespace(namespace);
+}
+
+export class PineconeVectorStore implements VectorStore {
+  readonly provider = "pinecone";
+
+  async upsert(records: VectorRecord[], namespace?: string): Promise<void> {
+    if (!records.length) return;
+    await namespacedIndex(namespace).upsert(records);
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    const response = await namespacedIndex(query.namespace).query({
+      vector: query.vector,
+      topK: query.topK,
+      includeMetadata: true,
+      filter: query.filter,
+    });
+
+    return (response.matches || []).map((match) => ({
+      id: match.id,
+      score: match.score ?? 0,
+      metadata: match.metadata as VectorMetadata | undefined,
+    }));
+  }
+
+  async deleteIds(ids: string[], namespace?: string): Promise<void> {
+    const index = namespacedIndex(namespace);
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+
+  async deleteAll(namespace: string = DEFAULT_NAMESPACE): Promise<void> {
+    pineconeLogger.warn("Deleting all vectors from namespace", { namespace });
+    await namespacedIndex(namespace).deleteAll();
+    pineconeLogger.info("Successfully deleted all vectors from namespace", { namespace });
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const stats = await getPineconeIndex().describeIndexStats();
+    const namespaces: Record<string, number> = {};
+    for (const [name, summary] of Object.entries(stats.namespaces || {})) {
+      if (summary.recordCount) {
+        namespaces[name === DEFAULT_NAMESPACE_ALIAS ? DEFAULT_NAMESPACE : name] = summary.recordCount;
+      }
+    }
+    return {
+      totalRecordCount: stats.totalRecordCount || 0,
+      dimension: stats.dimension,
+      indexFullness: stats.indexFullness,
+      namespaces,
+    };
+  }
+
+  async flush(): Promise<void> {
+    // Pinecone writes are durable once the request returns
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Backend-neutral vector store types. The filter syntax is the subset of
+ * Pinecone's metadata filter language the app uses, so existing filters work
+ * unchanged against every backend. Vectors are partitioned into namespaces
+ * as in Pinecone; operations without one use the default namespace.
+ */
+
+// Pinecone's default namespace, which holds the shared statute corpus
+export const DEFAULT_NAMESPACE = "";
+
+export type MetadataValue = string | number | boolean | string[];
+
+export type VectorMetadata = Record<string, MetadataValue>;
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+};
+
+type Scalar = string | number | boolean;
+
+export type FieldCondition =
+  | Scalar
+  | {
+      $eq?: Scalar;
+      $ne?: Scalar;
+      $in?: Scalar[];
+      $nin?: Scalar[];
+      $gt?: number;
+      $gte?: number;
+      $lt?: number;
+      $lte?: number;
+    };
+
+export type MetadataFilter = {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: FieldCondition | MetadataFilter[] | undefined;
+};
+
+export type VectorQuery = {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+  namespace?: string;
+};
+
+export type VectorMatch = {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+};
+
+export type VectorStoreStats = {
+  totalRecordCount: number;
+  dimension?: number;
+  // Only reported by hosted backends with a capacity limit
+  indexFullness?: number;
+  // Record count per non-empty namespace
+  namespaces: Record<string, number>;
+};
+
+export interface VectorStore {
+  // Backend name for logs and status endpoints ("pinecone", "local")
+  readonly provider: string;
+  upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+  deleteIds(ids: string[], namespace?: string): Promise<void>;
+  // Empties one namespace; the others are untouched
+  deleteAll(namespace?: string): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+  // Persist pending writes; a no-op for backends that write through
+  flush(): Promise<void>;
+}
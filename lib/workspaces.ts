@@ -0,0 +1,84 @@
+/**
+ * Workspaces keep each team's uploads apart. A workspace's uploads live in
+ * their own vector namespace and lexical index, while the statute corpus stays
+ * in the default namespace that every workspace searches. Callers choose their
+ * workspace with the X-Workspace header.
+ */
+
+import { getDocumentRegistry } from "./documents";
+import { DEFAULT_NAMESPACE, getVectorStore } from "./vectorstore";
+
+export const WORKSPACE_HEADER = "x-workspace";
+export const DEFAULT_WORKSPACE = "default";
+// How the default namespace is named in the API, since it cannot be a path segment
+export const SHARED_NAMESPACE_NAME = "__default__";
+
+const WORKSPACE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,47}$/;
+const NAMESPACE_PREFIX = "ws-";
+
+export type NamespaceInfo = {
+  // API name; SHARED_NAMESPACE_NAME for the shared corpus
+  name: string;
+  // Null for the shared corpus and namespaces not created by a workspace
+  workspace: string | null;
+  shared: boolean;
+  vectorCount: number;
+  documentCount: number;
+};
+
+export class InvalidWorkspaceError extends Error {
+  constructor(readonly workspace: string) {
+    super(`Invalid workspace "${workspace}". Use up to 48 lowercase letters, digits, "-" or "_".`);
+    this.name = "InvalidWorkspaceError";
+  }
+}
+
+/** Normalize a workspace name; an empty value selects the default workspace */
+export function parseWorkspace(value: string | null | undefined): string {
+  const workspace = (value ?? "").trim().toLowerCase();
+  if (!workspace) return DEFAULT_WORKSPACE;
+  if (!WORKSPACE_PATTERN.test(workspace)) throw new InvalidWorkspaceError(workspace);
+  return workspace;
+}
+
+export function workspaceFromRequest(request: Request): string {
+  return parseWorkspace(request.headers.get(WORKSPACE_HEADER));
+}
+
+export function workspaceNamespace(workspace: string): string {
+  return `${NAMESPACE_PREFIX}${workspace}`;
+}
+
+/** The workspace a namespace belongs to, or null for the shared corpus and unknown namespaces */
+export function namespaceWorkspace(namespace: string): string | null {
+  return namespace.startsWith(NAMESPACE_PREFIX) ? namespace.slice(NAMESPACE_PREFIX.length) : null;
+}
+
+/** Namespaces a workspace's questions are answered from */
+export function searchNamespaces(workspace: string): string[] {
+  return [DEFAULT_NAMESPACE, workspaceNamespace(workspace)];
+}
+
+export function namespaceName(namespace: string): string {
+  return namespace === DEFAULT_NAMESPACE ? SHARED_NAMESPACE_NAME : namespace;
+}
+
+export function parseNamespaceName(name: string): string {
+  return name === SHARED_NAMESPACE_NAME ? DEFAULT_NAMESPACE : name;
+}
+
+/** Every namespace holding vectors or uploaded files, the shared corpus first */
+export async function listNamespaces(): Promise<NamespaceInfo[]> {
+  const [stats, documentCounts] = await Promise.all([getVectorStore().stats(), getDocumentRegistry().counts()]);
+  const namespaces = new Set([DEFAULT_NAMESPACE, ...Object.keys(stats.namespaces), ...Object.keys(documentCounts)]);
+
+  return [...namespaces]
+    .sort((a, b) => (a === DEFAULT_NAMESPACE ? -1 : b === DEFAULT_NAMESPACE ? 1 : a.localeCompare(b)))
+    .map((namespace) => ({
+      name: namespaceName(namespace),
+      workspace: namespaceWorkspace(namespace),
+      shared: namespace === DEFAULT_NAMESPACE,
+      vectorCount: stats.namespaces[namespace] ?? 0,
+      documentCount: documentCounts[namespace] ?? 0,
+    }));
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { middleware } from "./middleware";
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return new NextRequest(new URL(path, "http://localhost:3000"), { headers });
+}
+
+// NextResponse.next() marks the request as passed through to the route
+const passedThrough = (response: Response) => response.headers.get("x-middleware-next") === "1";
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe("middleware without AUTH_SECRET", () => {
+  it("shows a setup page naming the variable instead of protected pages", async () => {
+    vi.stubEnv("AUTH_SECRET", "");
+    const response = await middleware(request("/upload"));
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("content-type")).toContain("text/html");
+    expect(await response.text()).toContain("AUTH_SECRET is not set");
+  });
+
+  it("answers API routes with a JSON error, even with a Bearer key", async () => {
+    vi.stubEnv("AUTH_SECRET", "");
+    const response = await middleware(request("/api/chat", { authorization: "Bearer sytha_key" }));
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).error).toMatch(/^Sign-in is not set up: AUTH_SECRET is not set/);
+  });
+
+  it("refuses the placeholder secret from .env.example", async () => {
+    vi.stubEnv("AUTH_SECRET", "REPLACE_WITH_A_LONG_RANDOM_STRING");
+    expect(await (await middleware(request("/"))).text()).toContain("placeholder value");
+  });
+
+  it("still serves public routes and lets AUTH_ENABLED=false through", async () => {
+    vi.stubEnv("AUTH_SECRET", "");
+    expect(passedThrough(await middleware(request("/login")))).toBe(true);
+
+    vi.stubEnv("AUTH_ENABLED", "false");
+    expect(passedThrough(await middleware(request("/upload")))).toBe(true);
+  });
+});
+
+describe("middleware with auth configured", () => {
+  it("lets Bearer keys through to API handlers only", async () => {
+    vi.stubEnv("AUTH_SECRET", "0123456789abcdef0123456789abcdef");
+    vi.stubEnv("AUTH_ANONYMOUS_ROLE", "viewer");
+
+    expect(passedThrough(await middleware(request("/api/pinecone/jobs", { authorization: "Bearer sytha_key" })))).toBe(true);
+    expect((await middleware(request("/api/pinecone/jobs", { authorization: "x" }))).status).toBe(401);
+    expect((await middleware(request("/upload", { authorization: "Bearer sytha_key" }))).status).toBe(307);
+  });
+});
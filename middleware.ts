@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+// Not the lib/auth barrel: the middleware runs on the edge runtime, without Node.js modules
+import { hasRole, routeAccess } from "./lib/auth/roles";
+import { AuthConfigError, SESSION_COOKIE, getAuthSettings, verifySession } from "./lib/auth/session";
+import { apiLogger } from "./lib/logger";
+
+const BEARER = /^Bearer\s+\S+/i;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/** Shown instead of every protected page until auth is configured, so operators see what to set */
+function setupPage(message: string): string {
+  return `<!doctype html><html><head><meta charset="utf-8"><title>SythaAI setup</title></head><body style="font-family:sans-serif;max-width:40rem;margin:4rem auto;padding:0 1rem"><h1>Sign-in is not set up</h1><p>${escapeHtml(message)}</p><p>See "Access control" in the README.</p></body></html>`;
+}
+
+/**
+ * First line of access control: turns away requests whose session cookie (or
+ * lack of one) cannot reach the route's role. Route handlers check again
+ * against the user store, and they alone validate API keys.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const access = routeAccess(pathname, request.method);
+  if (access === "public") return NextResponse.next();
+
+  const isApi = pathname.startsWith("/api/");
+  let settings;
+  try {
+    settings = getAuthSettings();
+  } catch (error) {
+    // Fail closed: protected routes stay unavailable until the operator fixes the configuration
+    apiLogger.error("Invalid auth configuration", { error: String(error) });
+    const message = error instanceof AuthConfigError ? error.message : "Authentication is misconfigured on the server.";
+    if (isApi) return NextResponse.json({ error: `Sign-in is not set up: ${message}` }, { status: 503 });
+    return new NextResponse(setupPage(message), { status: 503, headers: { "content-type": "text/html; charset=utf-8" } });
+  }
+
+  if (!settings.enabled) return NextResponse.next();
+  // API route handlers validate Bearer API keys themselves; pages and other schemes still need a session
+  if (isApi && BEARER.test(request.headers.get("authorization") ?? "")) return NextResponse.next();
+
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value, settings.secret);
+  const role = session?.role ?? settings.anonymousRole;
+  if (hasRole(role, access)) return NextResponse.next();
+
+  const status = session ? 403 : 401;
+  if (isApi) {
+    return NextResponse.json(
+      { error: status === 401 ? "Sign in to continue" : `This action needs the ${access} role` },
+      { status },
+    );
+  }
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", `${pathname}${search}`);
+  if (status === 403) login.searchParams.set("reason", "forbidden");
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -11,17 +11,37 @@ import * as path from "path";
 dotenv.config({ path: path.join(process.cwd(), ".env") });
 
 import { validateEnvironment, getEnvConfig } from "../lib/env";
-import { checkPineconeConnection } from "../lib/pinecone";
-import { getOpenAIClient } from "../lib/openai";
+import { checkVectorStoreConnection, getVectorStore } from "../lib/vectorstore";
+import { getEmbeddingModel } from "../lib/llm";
+import { getAuthSettings, getUserStore } from "../lib/auth";
 
-async function checkOpenAI(): Promise<boolean> {
+async function checkAuth(): Promise<boolean> {
+  try {
+    const settings = getAuthSettings();
+    if (!settings.enabled) {
+      console.log("⚠️  Authentication is disabled (AUTH_ENABLED=false); every request is treated as an admin");
+      return true;
+    }
+    const users = await getUserStore().list();
+    console.log(`✅ Authentication is enabled; anonymous requests are ${settings.anonymousRole ?? "refused"}`);
+    console.log(`   - Users: ${users.length}, admins: ${users.filter((user) => user.role === "admin").length}`);
+    if (!users.some((user) => user.role === "admin")) {
+      console.log("   ⚠️  No admin yet. Add one with: npm run users -- add <username> --role admin");
+    }
+    return true;
+  } catch (error) {
+    console.log(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+async function checkLLM(): Promise<boolean> {
   try {
-    const client = getOpenAIClient();
     // Test with a minimal API call
-    const response = await client.models.list();
-    return response.data.length > 0;
+    const [embedding] = await getEmbeddingModel().embed(["connection check"]);
+    return Boolean(embedding?.length);
   } catch (error) {
-    console.error("❌ OpenAI connection failed:", error);
+    console.error("❌ LLM provider connection failed:", error);
     return false;
   }
 }
@@ -46,47 +66,56 @@ async function main() {
   try {
     const config = getEnvConfig();
     console.log("\n2. Current configuration:");
-    console.log(`   - OpenAI Model: ${config.openai.model}`);
-    console.log(`   - Embedding Model: ${config.openai.embeddingModel}`);
-    console.log(`   - Pinecone Index: ${config.pinecone.index}`);
+    console.log(`   - LLM Provider: ${config.llm.provider}${config.llm.baseURL ? ` (${config.llm.baseURL})` : ""}`);
+    console.log(`   - Chat Model: ${config.llm.model}`);
+    console.log(`   - Embedding Provider: ${config.llm.embeddingProvider}`);
+    console.log(`   - Embedding Model: ${config.llm.embeddingModel}`);
+    console.log(`   - Vector Store: ${config.vectorStore.provider}`);
+    if (config.vectorStore.provider === "pinecone") {
+      console.log(`   - Pinecone Index: ${config.pinecone.index}`);
+    } else {
+      console.log(`   - Local Vector File: ${config.vectorStore.localPath}`);
+    }
     console.log(`   - Environment: ${config.app.nodeEnv}`);
   } catch (error) {
     console.log("\n❌ Failed to load configuration:", error);
   }
   
-  // Test OpenAI connection
-  console.log("\n3. Testing OpenAI connection...");
-  const openaiConnected = await checkOpenAI();
-  if (openaiConnected) {
-    console.log("✅ OpenAI API is accessible");
+  // Test LLM provider connection
+  console.log("\n3. Testing LLM provider connection...");
+  const llmConnected = await checkLLM();
+  if (llmConnected) {
+    console.log("✅ LLM provider is accessible");
   } else {
-    console.log("❌ Failed to connect to OpenAI API");
+    console.log("❌ Failed to connect to the LLM provider");
   }
   
-  // Test Pinecone connection
-  console.log("\n4. Testing Pinecone connection...");
-  const pineconeConnected = await checkPineconeConnection();
-  if (pineconeConnected) {
-    console.log("✅ Pinecone database is accessible");
+  // Test vector store connection
+  console.log("\n4. Testing vector store connection...");
+  const vectorStoreConnected = await checkVectorStoreConnection();
+  if (vectorStoreConnected) {
+    console.log(`✅ Vector store (${getVectorStore().provider}) is accessible`);
     
     // Get index stats
     try {
-      const { getPineconeIndex } = require("../lib/pinecone");
-      const index = getPineconeIndex();
-      const stats = await index.describeIndexStats();
-      console.log(`   - Total vectors: ${stats.totalRecordCount || 0}`);
+      const stats = await getVectorStore().stats();
+      console.log(`   - Total vectors: ${stats.totalRecordCount}`);
       console.log(`   - Dimension: ${stats.dimension || "N/A"}`);
       console.log(`   - Index fullness: ${(stats.indexFullness || 0) * 100}%`);
     } catch (error) {
       console.log("   ⚠️  Could not retrieve index statistics");
     }
   } else {
-    console.log("❌ Failed to connect to Pinecone database");
+    console.log("❌ Failed to connect to the vector store");
   }
   
+  // Check access control
+  console.log("\n5. Checking access control...");
+  const authConfigured = await checkAuth();
+
   // Overall status
   console.log("\n=== Overall Status ===");
-  if (validation.valid && openaiConnected && pineconeConnected) {
+  if (validation.valid && llmConnected && vectorStoreConnected && authConfigured) {
     console.log("✅ All systems operational - Ready to serve!");
   } else {
     console.log("❌ Some issues detected - Please check the errors above");
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+/**
+ * Script to run the golden question set through retrieval and generation and write a metrics report
+ * Usage: npm run eval [-- --set eval/golden-set.json] [--out eval/reports] [--limit N] [--tag procedure]
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+
+// Load environment variables from .env file
+dotenv.config({ path: path.join(process.cwd(), ".env") });
+
+import { createLogger } from "../lib/logger";
+import { getEnvConfig, validateEnvironment } from "../lib/env";
+import { answerLegalQuestion } from "../lib/rag";
+import {
+  EvaluationReport,
+  evaluateResult,
+  failedEvaluation,
+  loadGoldenSet,
+  QuestionEvaluation,
+  renderMarkdown,
+  summarize,
+} from "../lib/evaluation";
+
+const evalLogger = createLogger("Eval");
+
+const DEFAULT_SET_PATH = path.join(process.cwd(), "eval", "golden-set.json");
+const DEFAULT_OUT_DIR = path.join(process.cwd(), "eval", "reports");
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  try {
+    evalLogger.info("=== RAG Evaluation Started ===");
+
+    const validation = validateEnvironment();
+    if (!validation.valid) {
+      evalLogger.fatal("Environment validation failed", undefined, {
+        errors: validation.errors
+      });
+      process.exit(1);
+    }
+
+    const setPath = path.resolve(argValue("--set") || DEFAULT_SET_PATH);
+    const outDir = path.resolve(argValue("--out") || DEFAULT_OUT_DIR);
+    const limit = Number(argValue("--limit")) || undefined;
+    const tag = argValue("--tag");
+
+    const goldenSet = loadGoldenSet(setPath);
+    const questions = goldenSet.questions
+      .filter((question) => !tag || question.tags?.includes(tag))
+      .slice(0, limit);
+
+    evalLogger.info(`Evaluating ${questions.length} question(s) from ${goldenSet.name} v${goldenSet.version}`);
+
+    // Sequential so latencies are comparable and rate limits are not hit
+    const results: QuestionEvaluation[] = [];
+    for (const [index, golden] of questions.entries()) {
+      const startTime = Date.now();
+      try {
+        const result = await answerLegalQuestion(golden.question);
+        results.push(evaluateResult(golden, result, Date.now() - startTime));
+      } catch (error) {
+        evalLogger.error("Question failed", { id: golden.id, error: String(error) });
+        results.push(failedEvaluation(golden, error, Date.now() - startTime));
+      }
+
+      const latest = results[results.length - 1];
+      evalLogger.info(`[${index + 1}/${questions.length}] ${golden.id}`, {
+        recallAt5: latest.recallAtK[5],
+        reciprocalRank: latest.reciprocalRank,
+        citationAccuracy: latest.citationAccuracy,
+        faithfulness: latest.faithfulness
+      });
+    }
+
+    const config = getEnvConfig();
+    const report: EvaluationReport = {
+      goldenSet: {
+        name: goldenSet.name,
+        version: goldenSet.version,
+        path: path.relative(process.cwd(), setPath),
+      },
+      generatedAt: new Date().toISOString(),
+      config: {
+        llmProvider: config.llm.provider,
+        model: config.llm.model,
+        embeddingProvider: config.llm.embeddingProvider,
+        embeddingModel: config.llm.embeddingModel,
+        vectorStore: config.vectorStore.provider,
+        reranker: config.rerank.provider,
+        rerankCandidates: config.rerank.candidates,
+        rerankMinScore: config.rerank.minScore,
+      },
+      summary: summarize(results),
+      results,
+    };
+
+    fs.mkdirSync(outDir, { recursive: true });
+    const baseName = `${goldenSet.name}-v${goldenSet.version}`;
+    const jsonPath = path.join(outDir, `${baseName}.json`);
+    const markdownPath = path.join(outDir, `${baseName}.md`);
+    fs.writeFileSync(jsonPath, `${JSON.stringify(report, null, 2)}\n`, "utf-8");
+    fs.writeFileSync(markdownPath, renderMarkdown(report), "utf-8");
+
+    evalLogger.info("=== Evaluation Complete ===", {
+      ...report.summary,
+      report: path.relative(process.cwd(), jsonPath),
+      markdown: path.relative(process.cwd(), markdownPath)
+    });
+
+    process.exit(0);
+  } catch (error) {
+    evalLogger.fatal("Evaluation script failed", error);
+    process.exit(1);
+  }
+}
+
+// Run the script if executed directly
+if (require.main === module) {
+  main();
+}
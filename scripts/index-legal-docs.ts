@@ -1,272 +1,129 @@
 #!/usr/bin/env node
 
 /**
- * Script to index legal documents from CSV files into Pinecone
- * Usage: npm run index-docs [--clear]
+ * Script to index legal documents from the dataset (CSV and statute JSON files) into the vector store.
+ * Only chunks that are new or changed since the last run (per the index manifest) are embedded,
+ * and vectors of removed sections are deleted.
+ * Usage: npm run index-docs [-- --clear] [--dry-run]
  */
 
 import * as dotenv from "dotenv";
-import * as fs from "fs";
 import * as path from "path";
 
 // Load environment variables from .env file
 dotenv.config({ path: path.join(process.cwd(), ".env") });
 
-import { parse } from "csv-parse/sync";
-import { getPineconeIndex, checkPineconeConnection, deleteAllVectors } from "../lib/pinecone";
-import { embedTexts } from "../lib/openai";
+import { checkVectorStoreConnection, getVectorStore } from "../lib/vectorstore";
 import { indexLogger } from "../lib/logger";
 import { validateEnvironment } from "../lib/env";
+import {
+  applyDiff,
+  chunkLegalSections,
+  clearIndexes,
+  currentEmbeddingModel,
+  defaultLoaders,
+  diffManifest,
+  formatDiff,
+  IndexManifest,
+  loadManifest,
+  loadSections,
+  ManifestDiff,
+  removeChunks,
+  saveManifest,
+  upsertChunks,
+} from "../lib/ingest";
 
-type LegalSection = {
-  id: string;
-  act: string;
-  section: string;
-  title: string;
-  description: string;
-  text?: string;
-};
+// Ids listed per change type in a dry run
+const DRY_RUN_SAMPLE = 20;
 
-async function loadCSVFile(filePath: string, actName: string): Promise<LegalSection[]> {
-  try {
-    indexLogger.info(`Loading CSV file: ${filePath}`);
-    const fileContent = fs.readFileSync(filePath, "utf-8");
-    
-    const records = parse(fileContent, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
-    });
-    
-    const sections: LegalSection[] = records.map((record: any, index: number) => ({
-      id: `${actName.toLowerCase()}_${record.section || index}`,
-      act: actName,
-      section: record.section || record.Section || "",
-      title: record.title || record.Title || "",
-      description: record.description || record.Description || "",
-      text: record.text || record.Text || record.description || "",
-    }));
-    
-    indexLogger.info(`Loaded ${sections.length} sections from ${actName}`);
-    return sections;
-  } catch (error) {
-    indexLogger.error(`Failed to load CSV file: ${filePath}`, { error: String(error) });
-    throw error;
-  }
-}
-
-async function loadAllCSVFiles(): Promise<LegalSection[]> {
-  const datasetPath = path.join(process.cwd(), "dataset");
-  const csvFiles = [
-    { file: "ipc_sections.csv", act: "IPC" },
-    { file: "bns_sections.csv", act: "BNS" },
-    { file: "bsa_sections.csv", act: "BSA" },
-    { file: "crpc_sections.csv", act: "CrPC" },
-  ];
-  
-  const allSections: LegalSection[] = [];
-  
-  for (const { file, act } of csvFiles) {
-    const filePath = path.join(datasetPath, file);
-    if (fs.existsSync(filePath)) {
-      const sections = await loadCSVFile(filePath, act);
-      allSections.push(...sections);
-    } else {
-      indexLogger.warn(`CSV file not found: ${filePath}`);
-    }
-  }
-  
-  return allSections;
-}
-
-async function loadJSONStatutes(): Promise<LegalSection[]> {
-  const datasetPath = path.join(process.cwd(), "dataset");
-  const jsonFiles = fs.readdirSync(datasetPath).filter(f => f.endsWith(".json"));
-  
-  const statutes: LegalSection[] = [];
-  
-  for (const file of jsonFiles) {
-    try {
-      const filePath = path.join(datasetPath, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const data = JSON.parse(content);
-      
-      // Extract ID from filename (remove .json extension)
-      const statuteId = file.replace(".json", "");
-      
-      // Create a legal section from the JSON data
-      const statute: LegalSection = {
-        id: `statute_${statuteId}`,
-        act: data.act || "Statute",
-        section: statuteId,
-        title: data.title || data.name || `Statute ${statuteId}`,
-        description: data.description || "",
-        text: data.text || data.content || JSON.stringify(data),
-      };
-      
-      statutes.push(statute);
-    } catch (error) {
-      indexLogger.warn(`Failed to parse JSON file: ${file}`, { error: String(error) });
-    }
-  }
-  
-  indexLogger.info(`Loaded ${statutes.length} statutes from JSON files`);
-  return statutes;
-}
-
-async function chunkLegalSections(sections: LegalSection[], chunkSize: number = 1000): Promise<any[]> {
-  const chunks: any[] = [];
-  
-  for (const section of sections) {
-    const fullText = `${section.act} - Section ${section.section}: ${section.title}\n\n${section.description}\n\n${section.text || ""}`;
-    
-    if (fullText.length <= chunkSize) {
-      chunks.push({
-        id: section.id,
-        text: fullText,
-        metadata: {
-          act: section.act,
-          section: section.section,
-          title: section.title,
-          source: "legal_dataset",
-        },
-      });
-    } else {
-      // Split large texts into chunks
-      const words = fullText.split(" ");
-      let currentChunk = "";
-      let chunkIndex = 0;
-      
-      for (const word of words) {
-        if ((currentChunk + " " + word).length > chunkSize && currentChunk.length > 0) {
-          chunks.push({
-            id: `${section.id}_chunk_${chunkIndex}`,
-            text: currentChunk.trim(),
-            metadata: {
-              act: section.act,
-              section: section.section,
-              title: section.title,
-              source: "legal_dataset",
-              chunkIndex,
-            },
-          });
-          currentChunk = word;
-          chunkIndex++;
-        } else {
-          currentChunk += (currentChunk ? " " : "") + word;
-        }
-      }
-      
-      // Add the last chunk
-      if (currentChunk.trim()) {
-        chunks.push({
-          id: `${section.id}_chunk_${chunkIndex}`,
-          text: currentChunk.trim(),
-          metadata: {
-            act: section.act,
-            section: section.section,
-            title: section.title,
-            source: "legal_dataset",
-            chunkIndex,
-          },
-        });
-      }
-    }
-  }
-  
-  return chunks;
+function sampleIds(ids: string[]): string[] {
+  return ids.length > DRY_RUN_SAMPLE ? [...ids.slice(0, DRY_RUN_SAMPLE), `… ${ids.length - DRY_RUN_SAMPLE} more`] : ids;
 }
 
-async function indexToPinecone(chunks: any[], batchSize: number = 50) {
-  const index = getPineconeIndex();
-  let totalIndexed = 0;
-  
-  indexLogger.info(`Starting to index ${chunks.length} chunks to Pinecone`);
-  
-  for (let i = 0; i < chunks.length; i += batchSize) {
-    const batch = chunks.slice(i, i + batchSize);
-    const texts = batch.map(chunk => chunk.text);
-    
-    try {
-      indexLogger.debug(`Generating embeddings for batch ${i / batchSize + 1}`);
-      const embeddings = await embedTexts(texts);
-      
-      const vectors = batch.map((chunk, idx) => ({
-        id: chunk.id,
-        values: embeddings[idx],
-        metadata: {
-          ...chunk.metadata,
-          text: chunk.text.substring(0, 2000), // Limit metadata text size
-        },
-      }));
-      
-      await index.upsert(vectors);
-      totalIndexed += batch.length;
-      
-      indexLogger.info(`Indexed ${totalIndexed}/${chunks.length} chunks`);
-      
-      // Add a small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
-    } catch (error) {
-      indexLogger.error(`Failed to index batch starting at ${i}`, { error: String(error) });
-      throw error;
-    }
+function logDiff(diff: ManifestDiff, dryRun: boolean) {
+  indexLogger.info(`Changes since last run: ${formatDiff(diff)}`);
+  if (dryRun) {
+    indexLogger.info("Dry run, nothing was written", {
+      added: sampleIds(diff.added.map((chunk) => chunk.id)),
+      updated: sampleIds(diff.updated.map((chunk) => chunk.id)),
+      removed: sampleIds(diff.removed),
+    });
   }
-  
-  return totalIndexed;
 }
 
 async function main() {
   try {
     indexLogger.info("=== Legal Documents Indexing Script Started ===");
     
-    // Validate environment
-    const validation = validateEnvironment();
-    if (!validation.valid) {
-      indexLogger.fatal("Environment validation failed", undefined, {
-        errors: validation.errors
-      });
-      process.exit(1);
-    }
-    
-    // Check Pinecone connection
-    const isConnected = await checkPineconeConnection();
-    if (!isConnected) {
-      indexLogger.fatal("Failed to connect to Pinecone");
-      process.exit(1);
+    const shouldClear = process.argv.includes("--clear");
+    const dryRun = process.argv.includes("--dry-run");
+
+    // A dry run only diffs the dataset against the stored manifest, so it needs no credentials or connection
+    if (!dryRun) {
+      const validation = validateEnvironment();
+      if (!validation.valid) {
+        indexLogger.fatal("Environment validation failed", undefined, {
+          errors: validation.errors
+        });
+        process.exit(1);
+      }
+
+      const isConnected = await checkVectorStoreConnection();
+      if (!isConnected) {
+        indexLogger.fatal("Failed to connect to the vector store");
+        process.exit(1);
+      }
     }
     
-    // Check for --clear flag
-    const shouldClear = process.argv.includes("--clear");
-    if (shouldClear) {
-      indexLogger.warn("Clearing all existing vectors from Pinecone index");
-      await deleteAllVectors();
+    if (shouldClear && dryRun) {
+      indexLogger.warn("Dry run: the indexes would be cleared and every chunk re-embedded");
+    } else if (shouldClear) {
+      indexLogger.warn("Clearing all existing vectors from the vector store");
+      await clearIndexes();
     }
     
     // Load all legal documents
     indexLogger.info("Loading legal documents from dataset");
-    const csvSections = await loadAllCSVFiles();
-    const jsonStatutes = await loadJSONStatutes();
-    const allSections = [...csvSections, ...jsonStatutes];
+    const allSections = await loadSections(defaultLoaders());
     
     indexLogger.info(`Total documents loaded: ${allSections.length}`);
     
     // Chunk the documents
     indexLogger.info("Chunking documents for indexing");
-    const chunks = await chunkLegalSections(allSections);
+    const chunks = chunkLegalSections(allSections);
     indexLogger.info(`Created ${chunks.length} chunks from ${allSections.length} documents`);
     
-    // Index to Pinecone
-    const totalIndexed = await indexToPinecone(chunks);
+    // Compare with the manifest of the last run
+    const embeddingModel = currentEmbeddingModel();
+    const manifest: IndexManifest = shouldClear ? { version: 1, entries: {} } : await loadManifest();
+    const diff = diffManifest(manifest, chunks, embeddingModel);
+    logDiff(diff, dryRun);
+    if (dryRun) {
+      process.exit(0);
+    }
+
+    // Embed new and changed chunks, then drop removed ones
+    const pending = [...diff.added, ...diff.updated];
+    const { indexed: totalIndexed, failedIds } = pending.length
+      ? await upsertChunks(pending)
+      : { indexed: 0, failedIds: [] as string[] };
+    await removeChunks(diff.removed);
     
     // Final stats
-    const index = getPineconeIndex();
-    const stats = await index.describeIndexStats();
+    const store = getVectorStore();
+    await store.flush();
+    await saveManifest(applyDiff(manifest, diff, embeddingModel, failedIds));
+    const stats = await store.stats();
     
     indexLogger.info("=== Indexing Complete ===", {
       totalDocuments: allSections.length,
       totalChunks: chunks.length,
       totalIndexed,
+      added: diff.added.length,
+      updated: diff.updated.length,
+      removed: diff.removed.length,
+      unchanged: diff.unchanged,
+      failed: failedIds.length,
       indexStats: {
         totalVectors: stats.totalRecordCount,
         dimension: stats.dimension,
@@ -274,6 +131,11 @@ async function main() {
       },
     });
     
+    if (failedIds.length) {
+      indexLogger.error(`${failedIds.length} chunks failed after retries and were added to the dead-letter list; run "npm run replay-dead-letter" to retry them`);
+      process.exit(1);
+    }
+    
     process.exit(0);
   } catch (error) {
     indexLogger.fatal("Indexing script failed", error);
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+
+/**
+ * Script to manage local user accounts and API keys
+ * Usage: npm run users -- <command> [arguments]
+ *   list
+ *   add <username> --role <viewer|uploader|admin> [--workspace <name>] [--no-password]
+ *   set-role <username> <role>
+ *   set-workspace <username> [workspace]
+ *   set-password <username>
+ *   remove <username>
+ *   create-key <username> <key name>
+ *   revoke-key <username> <key id>
+ * Passwords are prompted for, or read from the first line of piped input.
+ */
+
+import * as dotenv from "dotenv";
+import * as path from "path";
+import * as readline from "readline/promises";
+import { Writable } from "stream";
+
+// Load environment variables from .env file
+dotenv.config({ path: path.join(process.cwd(), ".env") });
+
+import { getUserStore, isRole, parseUsername, Role, ROLES, UserStoreError } from "../lib/auth";
+import { parseWorkspace } from "../lib/workspaces";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function parseRole(value: string | undefined): Role {
+  if (!isRole(value)) throw new UserStoreError(`Role must be one of: ${ROLES.join(", ")}`);
+  return value;
+}
+
+async function promptPassword(): Promise<string> {
+  const terminal = Boolean(process.stdin.isTTY);
+  if (terminal) process.stdout.write("Password: ");
+  // Typed characters are echoed to a sink, not the terminal
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const prompt = readline.createInterface({ input: process.stdin, output: muted, terminal });
+  const password = await prompt.question("");
+  prompt.close();
+  if (terminal) process.stdout.write("\n");
+  return password;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const store = getUserStore();
+
+  try {
+    switch (command) {
+      case "list": {
+        const users = await store.list();
+        if (!users.length) console.log("No users yet. Add one with: npm run users -- add <username> --role admin");
+        for (const user of users) {
+          console.log(`${user.username}  ${user.role}  workspace=${user.workspace ?? "default"}${user.passwordHash ? "" : "  (API keys only)"}`);
+          for (const apiKey of user.apiKeys) {
+            console.log(`    key ${apiKey.id}  ${apiKey.name}  created ${apiKey.createdAt.slice(0, 10)}`);
+          }
+        }
+        break;
+      }
+      case "add": {
+        const role = parseRole(argValue("--role"));
+        const workspace = argValue("--workspace");
+        const password = process.argv.includes("--no-password") ? undefined : await promptPassword();
+        const user = await store.add({
+          username: parseUsername(args[0] ?? ""),
+          role,
+          password,
+          workspace: workspace ? parseWorkspace(workspace) : undefined,
+        });
+        console.log(`✅ Added ${user.username} (${user.role})`);
+        break;
+      }
+      case "set-role": {
+        const user = await store.setRole(parseUsername(args[0] ?? ""), parseRole(args[1]));
+        console.log(`✅ ${user.username} is now ${user.role}`);
+        break;
+      }
+      case "set-workspace": {
+        const user = await store.setWorkspace(parseUsername(args[0] ?? ""), args[1] ? parseWorkspace(args[1]) : undefined);
+        console.log(`✅ ${user.username} now uses the ${user.workspace ?? "default"} workspace`);
+        break;
+      }
+      case "set-password": {
+        const user = await store.setPassword(parseUsername(args[0] ?? ""), await promptPassword());
+        console.log(`✅ Changed the password for ${user.username}`);
+        break;
+      }
+      case "remove": {
+        const removed = await store.remove(parseUsername(args[0] ?? ""));
+        console.log(removed ? `✅ Removed ${args[0]}` : `No user named "${args[0]}"`);
+        process.exit(removed ? 0 : 1);
+      }
+      case "create-key": {
+        const { key, apiKey } = await store.createApiKey(parseUsername(args[0] ?? ""), args.slice(1).join(" ") || "API key");
+        console.log(`✅ Created key ${apiKey.id} for ${args[0]}. It will not be shown again:\n\n${key}\n`);
+        console.log("Send it as the header: Authorization: Bearer <key>");
+        break;
+      }
+      case "revoke-key": {
+        const revoked = await store.revokeApiKey(parseUsername(args[0] ?? ""), args[1] ?? "");
+        console.log(revoked ? `✅ Revoked key ${args[1]}` : `${args[0]} has no key ${args[1]}`);
+        process.exit(revoked ? 0 : 1);
+      }
+      default:
+        console.log("Commands: list, add, set-role, set-workspace, set-password, remove, create-key, revoke-key");
+        console.log("See the comment at the top of scripts/manage-users.ts for arguments.");
+        process.exit(command ? 1 : 0);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+// Run the script if executed directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Script to re-index chunks whose batches failed permanently during indexing or upload
+ * Usage: npm run replay-dead-letter [-- --list]
+ */
+
+import * as dotenv from "dotenv";
+import * as path from "path";
+
+// Load environment variables from .env file
+dotenv.config({ path: path.join(process.cwd(), ".env") });
+
+import { checkVectorStoreConnection } from "../lib/vectorstore";
+import { indexLogger } from "../lib/logger";
+import { validateEnvironment } from "../lib/env";
+import { deadLetterPath, loadDeadLetters, replayDeadLetters } from "../lib/ingest";
+
+async function main() {
+  try {
+    const entries = await loadDeadLetters();
+    indexLogger.info(`${entries.length} chunk(s) on the dead-letter list`, { path: deadLetterPath() });
+
+    if (process.argv.includes("--list")) {
+      for (const entry of entries) {
+        indexLogger.info(entry.chunk.id, {
+          namespace: entry.namespace,
+          attempts: entry.attempts,
+          failedAt: entry.failedAt,
+          error: entry.error
+        });
+      }
+      process.exit(0);
+    }
+
+    if (!entries.length) {
+      process.exit(0);
+    }
+
+    const validation = validateEnvironment();
+    if (!validation.valid) {
+      indexLogger.fatal("Environment validation failed", undefined, {
+        errors: validation.errors
+      });
+      process.exit(1);
+    }
+
+    const isConnected = await checkVectorStoreConnection();
+    if (!isConnected) {
+      indexLogger.fatal("Failed to connect to the vector store");
+      process.exit(1);
+    }
+
+    const { replayed, failed } = await replayDeadLetters();
+    indexLogger.info("=== Dead-letter Replay Complete ===", { replayed, failed });
+
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    indexLogger.fatal("Dead-letter replay failed", error);
+    process.exit(1);
+  }
+}
+
+// Run the script if executed directly
+if (require.main === module) {
+  main();
+}